@@ -6,7 +6,7 @@ import prettier from "eslint-config-prettier";
 export default [
   eslint.configs.recommended,
   {
-    files: ["src/**/*.ts", "examples/**/*.ts"],
+    files: ["src/**/*.ts", "examples/**/*.ts", "test/**/*.ts"],
     languageOptions: {
       parser: tsparser,
       parserOptions: {
@@ -18,6 +18,9 @@ export default [
         process: "readonly",
         Buffer: "readonly",
         NodeJS: "readonly",
+        AbortController: "readonly",
+        AbortSignal: "readonly",
+        queueMicrotask: "readonly",
         setTimeout: "readonly",
         clearTimeout: "readonly",
         setInterval: "readonly",
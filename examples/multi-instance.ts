@@ -15,6 +15,7 @@ async function main() {
   // const laptop = new Ableton({ host: LAPTOP_TAILSCALE });
 
   // Method 2: Use createMultiple helper
+  // Both instances share the default receive port; replies are routed by host
   const instances = createMultiple([
     { name: "Studio", host: STUDIO_IP },
     { name: "Laptop", host: LAPTOP_TAILSCALE },
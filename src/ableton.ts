@@ -5,10 +5,55 @@
  */
 
 import { EventEmitter } from "node:events";
-import { OSCClient, type OSCClientOptions, type OSCMessage } from "./osc.js";
+import {
+  OSCClient,
+  type OSCArgument,
+  type OSCClientOptions,
+  type OSCMessage,
+  type OSCPacket,
+  type OSCTimeTag,
+  type QueryOptions,
+  type RetryPolicy,
+  type SubscriptionHandler,
+} from "./osc.js";
+import {
+  createTransport,
+  type OSCTransport,
+  type TransportType,
+} from "./transport.js";
+import { type SendSchedulerOptions } from "./scheduler.js";
+import {
+  ConnectionMonitor,
+  type ConnectionOptions,
+  type ConnectionState,
+} from "./connection.js";
+import {
+  PacketRecorder,
+  replayCapture,
+  type CaptureRecord,
+  type PacketRecorderOptions,
+  type ReplayOptions,
+} from "./capture.js";
+import type { AbletonRemoteError } from "./errors.js";
+import { loggerMiddleware, type OSCMiddleware } from "./middleware.js";
 import { Song } from "./song.js";
 import { Track } from "./track.js";
+import { ReturnTrack } from "./return-track.js";
+import { buildTrackTree, walkTrackTree, type TrackNode } from "./track-tree.js";
+import { MasterTrack } from "./master-track.js";
 import { Scene } from "./scene.js";
+import { ListenerRegistry } from "./listeners.js";
+import { HandleRegistry } from "./handles.js";
+import { resolvePath, type ResolvedPath } from "./path.js";
+import { findByName, type FindOptions, type NameQuery } from "./lookup.js";
+import {
+  callEndpoint,
+  requestEndpoint,
+  sendEndpoint,
+  type Endpoint,
+  type EndpointArgs,
+  type EndpointResult,
+} from "./schema.js";
 
 export interface Logger {
   log: (...args: unknown[]) => void;
@@ -25,15 +70,48 @@ export interface AbletonOptions {
   receivePort?: number;
   /** Query timeout in ms (default: 5000) */
   timeout?: number;
+  /** Retry settings for lost getter queries */
+  retry?: Partial<RetryPolicy>;
+  /** Rate limit and coalesce outgoing messages (off by default) */
+  rateLimit?: SendSchedulerOptions;
+  /** Transport type or instance (default: "udp") */
+  transport?: TransportType | OSCTransport;
+  /** Heartbeat and reconnection settings */
+  connection?: ConnectionOptions;
+  /**
+   * Find handled tracks and scenes again by name every this many ms while
+   * connected (off by default). AbletonOSC cannot report tracks or scenes
+   * being added, removed or moved in Live, so this is how handles keep up
+   * with such changes without calling `refreshHandles()`.
+   */
+  refreshHandlesInterval?: number;
   /** Enable debug logging */
   logger?: Logger;
 }
 
+/**
+ * Arguments of `Ableton.call()`; the argument list may be left off when the
+ * endpoint takes none
+ */
+export type CallArgs<K extends Endpoint> =
+  [] extends EndpointArgs<K>
+    ? [args?: EndpointArgs<K>, options?: QueryOptions]
+    : [args: EndpointArgs<K>, options?: QueryOptions];
+
 export interface AbletonEvents {
   connect: [];
   disconnect: [];
   error: [Error];
   message: [OSCMessage];
+  stateChange: [ConnectionState, ConnectionState];
+  online: [];
+  offline: [];
+  /** Active listens were sent to Live again after a reconnect or restart */
+  resubscribed: [count: number];
+  /** AbletonOSC reported an error that no pending query was waiting for */
+  remoteError: [AbletonRemoteError];
+  /** A packet could not be decoded; it was dropped */
+  protocolError: [Error, Buffer];
 }
 
 /**
@@ -54,37 +132,105 @@ export class Ableton extends EventEmitter<AbletonEvents> {
   private client: OSCClient;
   private logger?: Logger;
   private _song: Song;
-  private _connected = false;
+  private _masterTrack: MasterTrack;
+  private monitor: ConnectionMonitor;
+  private registry: ListenerRegistry;
+  private handles: HandleRegistry;
+  private refreshHandlesInterval: number;
+  private refreshTimer: NodeJS.Timeout | null = null;
 
   constructor(options: AbletonOptions = {}) {
     super();
 
+    const host = options.host ?? "127.0.0.1";
+    const sendPort = options.sendPort ?? 11000;
+    const receivePort = options.receivePort ?? 11001;
+
     const oscOptions: OSCClientOptions = {
-      host: options.host ?? "127.0.0.1",
-      sendPort: options.sendPort ?? 11000,
-      receivePort: options.receivePort ?? 11001,
+      host,
+      sendPort,
+      receivePort,
       timeout: options.timeout ?? 5000,
+      retry: options.retry,
+      rateLimit: options.rateLimit,
+      transport:
+        typeof options.transport === "string"
+          ? createTransport(options.transport, { host, sendPort, receivePort })
+          : options.transport,
     };
 
     this.logger = options.logger;
+    this.refreshHandlesInterval = options.refreshHandlesInterval ?? 0;
     this.client = new OSCClient(oscOptions);
     this._song = new Song(this.client);
+    this._masterTrack = new MasterTrack(this.client);
+    this.monitor = new ConnectionMonitor(this.client, options.connection);
+    this.registry = ListenerRegistry.for(this.client);
+    this.handles = HandleRegistry.for(this.client);
 
     // Forward events
     this.client.on("connect", () => {
-      this._connected = true;
       this.emit("connect");
     });
 
+    this.monitor.on("stateChange", (state, previous) => {
+      this.logger?.debug?.(`[AbleNode] Connection ${previous} -> ${state}`);
+      this.emit("stateChange", state, previous);
+      // Live was unreachable, so it may have restarted without our listens
+      if (state === "online" && previous === "offline") {
+        this.registry.resubscribe();
+        this.refreshHandlesInBackground();
+      }
+    });
+
+    this.monitor.on("online", () => {
+      this.logger?.log("[AbleNode] Live is online");
+      this.emit("online");
+    });
+
+    this.monitor.on("offline", () => {
+      this.logger?.log("[AbleNode] Live is offline");
+      this.emit("offline");
+    });
+
     this.client.on("error", (err: Error) => {
+      // The monitor retries failed reconnection attempts; not worth an error
+      if (this.monitor.reconnecting) {
+        this.logger?.debug?.("[AbleNode] Reconnect attempt failed:", err);
+        return;
+      }
       this.logger?.error("[AbleNode] Error:", err);
       this.emit("error", err);
     });
 
+    this.client.on("protocolError", (err: Error, data: Buffer) => {
+      this.logger?.debug?.("[AbleNode] Dropped malformed packet:", err);
+      this.emit("protocolError", err, data);
+    });
+
+    this.client.on("remoteError", (err: AbletonRemoteError) => {
+      this.logger?.debug?.("[AbleNode] Remote error:", err.message);
+      this.emit("remoteError", err);
+    });
+
     this.client.on("message", (msg: OSCMessage) => {
-      this.logger?.debug?.("[AbleNode] Received:", msg);
       this.emit("message", msg);
     });
+
+    // Re-send listens whenever they may have been lost
+    this.registry.on("resubscribed", (count) => {
+      this.logger?.log(`[AbleNode] Resubscribed ${count} listeners`);
+      this.emit("resubscribed", count);
+    });
+
+    this.client.subscribe("/live/startup", () => {
+      this.registry.resubscribe();
+      this.refreshHandlesInBackground();
+    });
+
+    if (this.logger) {
+      this.client.use(loggerMiddleware(this.logger));
+    }
   }
 
   /**
@@ -95,10 +241,31 @@ export class Ableton extends EventEmitter<AbletonEvents> {
   }
 
   /**
-   * Whether we're connected to Ableton
+   * The master track: volume, panning, cue volume, meters and devices
+   */
+  get masterTrack(): MasterTrack {
+    return this._masterTrack;
+  }
+
+  /**
+   * Whether Live is answering heartbeats (online or degraded)
    */
   get connected(): boolean {
-    return this._connected;
+    return this.state === "online" || this.state === "degraded";
+  }
+
+  /**
+   * Current connection state
+   */
+  get state(): ConnectionState {
+    return this.monitor.state;
+  }
+
+  /**
+   * Round-trip time of the last answered heartbeat in ms
+   */
+  get rtt(): number | null {
+    return this.monitor.rtt;
   }
 
   /**
@@ -110,62 +277,195 @@ export class Ableton extends EventEmitter<AbletonEvents> {
 
   /**
    * Connect to Ableton Live
+   *
+   * Resolves once the transport is open and the first heartbeat has been
+   * answered or missed; check `connected` or `state` for the outcome.
    */
   async connect(): Promise<void> {
     this.logger?.log("[AbleNode] Connecting...");
     await this.client.connect();
     this.logger?.log("[AbleNode] Connected");
+    await this.monitor.start();
+    // Record track and scene names so handles can be found again later
+    this.refreshHandlesInBackground();
+    if (this.refreshHandlesInterval > 0 && !this.refreshTimer) {
+      this.refreshTimer = setInterval(
+        () => this.refreshHandlesInBackground(),
+        this.refreshHandlesInterval
+      );
+    }
   }
 
   /**
    * Disconnect from Ableton Live
    */
   disconnect(): void {
-    this._connected = false;
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.monitor.stop();
     this.client.close();
     this.emit("disconnect");
   }
 
+  /**
+   * Send all active listens to Live again; this happens automatically after
+   * a reconnect, when Live comes back online and when AbletonOSC restarts.
+   * Returns the number of listens replayed.
+   */
+  resubscribe(): number {
+    return this.registry.resubscribe();
+  }
+
+  /**
+   * Find tracks and scenes held by handles again by name, after tracks or
+   * scenes were added, removed or moved in Live itself. Handles whose target
+   * is gone become stale. Changes made through this API are followed
+   * without a refresh.
+   *
+   * AbletonOSC sends no notification when the track or scene list changes
+   * in Live, so until this runs (here, on connect, when Live comes back
+   * online, or every `refreshHandlesInterval` ms) handles keep the indices
+   * they had and may point at other objects.
+   */
+  async refreshHandles(options?: QueryOptions): Promise<void> {
+    await this.handles.refresh(options);
+  }
+
+  private refreshHandlesInBackground(): void {
+    this.handles.refresh().catch((err: unknown) => {
+      this.logger?.debug?.("[AbleNode] Could not refresh handles:", err);
+    });
+  }
+
   /**
    * Test connection to Ableton
    */
-  async ping(): Promise<boolean> {
-    return this.client.ping();
+  async ping(options?: QueryOptions): Promise<boolean> {
+    return this.client.ping(options);
   }
 
   /**
    * Get Ableton Live version
    */
-  async getVersion(): Promise<{ major: number; minor: number }> {
-    const response = await this.client.query("/live/application/get/version");
-    return {
-      major: response.args[0] as number,
-      minor: response.args[1] as number,
-    };
+  async getVersion(
+    options?: QueryOptions
+  ): Promise<{ major: number; minor: number }> {
+    const [major, minor] = await requestEndpoint(
+      this.client,
+      "application/get/version",
+      [],
+      options
+    );
+    return { major, minor };
   }
 
   /**
    * Show a message in Live's status bar
    */
   showMessage(message: string): void {
-    this.client.send("/live/api/show_message", message);
+    sendEndpoint(this.client, "api/show_message", [message]);
   }
 
   /**
    * Send a raw OSC message
    */
-  send(address: string, ...args: (string | number | boolean)[]): void {
+  send(address: string, ...args: OSCArgument[]): void {
     this.client.send(address, ...args);
   }
 
+  /**
+   * Send several raw OSC messages in one bundle, applied atomically by Live
+   */
+  sendBundle(elements: OSCPacket[], time?: OSCTimeTag | Date | number): void {
+    this.client.sendBundle(elements, time);
+  }
+
   /**
    * Send a raw OSC query and wait for response
    */
-  async query(
+  async query(address: string, ...args: OSCArgument[]): Promise<OSCMessage> {
+    return this.client.query(address, ...args);
+  }
+
+  /**
+   * Send a raw OSC query with per-call timeout and retry options
+   */
+  async request(
     address: string,
-    ...args: (string | number | boolean)[]
+    args: OSCArgument[] = [],
+    options?: QueryOptions
   ): Promise<OSCMessage> {
-    return this.client.query(address, ...args);
+    return this.client.request(address, args, options);
+  }
+
+  /**
+   * Call any endpoint in the registry by name; queries resolve with the
+   * checked, decoded reply and other endpoints are sent
+   *
+   * @example
+   * ```typescript
+   * const tempo = await ableton.call("song/get/tempo"); // number
+   * await ableton.call("track/set/mute", [0, true]);
+   * ```
+   */
+  async call<K extends Endpoint>(
+    endpoint: K,
+    ...[args, options]: CallArgs<K>
+  ): Promise<EndpointResult<K>> {
+    return callEndpoint(
+      this.client,
+      endpoint,
+      (args ?? []) as EndpointArgs<K>,
+      options
+    );
+  }
+
+  /**
+   * Resolve a Live object path such as
+   * `tracks['Bass'].devices[1].parameters['Cutoff']` or `tracks[*].mute`,
+   * to read, set or watch what it names
+   */
+  async resolve(path: string, options?: FindOptions): Promise<ResolvedPath> {
+    return resolvePath(this.client, path, options);
+  }
+
+  /**
+   * Call `handler` for every incoming message whose address matches an OSC
+   * pattern, e.g. `/live/track/get/*`; returns an unsubscribe function
+   */
+  subscribe(pattern: string, handler: SubscriptionHandler): () => void {
+    return this.client.subscribe(pattern, handler);
+  }
+
+  /**
+   * Add middleware for outgoing and incoming messages; returns a function
+   * that removes it
+   */
+  use(middleware: OSCMiddleware): () => void {
+    return this.client.use(middleware);
+  }
+
+  /**
+   * Record all OSC traffic to a JSONL file or stream until `stop()` is called
+   */
+  record(
+    destination: string | NodeJS.WritableStream,
+    options?: PacketRecorderOptions
+  ): PacketRecorder {
+    return new PacketRecorder(this.client, destination, options);
+  }
+
+  /**
+   * Replay a capture: feed recorded replies to listeners, or re-send
+   * recorded messages to Live with `mode: "send"`
+   */
+  async replay(
+    capture: CaptureRecord[] | string,
+    options?: ReplayOptions
+  ): Promise<number> {
+    return replayCapture(this.client, capture, options);
   }
 
   // ============ Tracks ============
@@ -180,45 +480,118 @@ export class Ableton extends EventEmitter<AbletonEvents> {
   /**
    * Get all track names
    */
-  async getTrackNames(): Promise<string[]> {
-    const res = await this.client.query("/live/song/get/track_names");
-    return res.args as string[];
+  async getTrackNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(this.client, "song/get/track_names", [], options);
   }
 
   /**
    * Get number of tracks
    */
-  async getNumTracks(): Promise<number> {
-    const res = await this.client.query("/live/song/get/num_tracks");
-    return res.args[0] as number;
+  async getNumTracks(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "song/get/num_tracks", [], options);
+  }
+
+  /**
+   * Get the track with a matching name. Throws NameNotFoundError or
+   * AmbiguousNameError unless exactly one track matches.
+   */
+  async findTrack(query: NameQuery, options?: FindOptions): Promise<Track> {
+    const names = await this.getTrackNames(options);
+    return this.getTrack(findByName("track", names, query, options));
+  }
+
+  /**
+   * Get the tracks as a tree of group tracks and the tracks in them
+   */
+  async getTrackTree(options?: QueryOptions): Promise<TrackNode[]> {
+    return buildTrackTree(this.client, options);
+  }
+
+  /**
+   * Fold (or unfold) every group track
+   */
+  async foldAllGroups(folded = true, options?: QueryOptions): Promise<void> {
+    const tree = await this.getTrackTree(options);
+    const setting: Promise<void>[] = [];
+    walkTrackTree(tree, (node) => {
+      if (node.type === "group") {
+        setting.push(node.track.setFoldState(folded));
+      }
+    });
+    await Promise.all(setting);
   }
 
   /**
    * Create a new MIDI track
    */
   createMidiTrack(index = -1): void {
-    this.client.send("/live/song/create_midi_track", index);
+    sendEndpoint(this.client, "song/create_midi_track", [index]);
+    this.handles.inserted("track", index);
   }
 
   /**
    * Create a new audio track
    */
   createAudioTrack(index = -1): void {
-    this.client.send("/live/song/create_audio_track", index);
+    sendEndpoint(this.client, "song/create_audio_track", [index]);
+    this.handles.inserted("track", index);
   }
 
   /**
    * Delete a track
    */
   deleteTrack(trackId: number): void {
-    this.client.send("/live/song/delete_track", trackId);
+    sendEndpoint(this.client, "song/delete_track", [trackId]);
+    this.handles.removed("track", trackId);
+    // A group track goes together with the tracks in it
+    this.refreshHandlesInBackground();
   }
 
   /**
    * Duplicate a track
    */
   duplicateTrack(trackId: number): void {
-    this.client.send("/live/song/duplicate_track", trackId);
+    sendEndpoint(this.client, "song/duplicate_track", [trackId]);
+    this.handles.inserted("track", trackId + 1);
+    // A group track is copied with the tracks in it, after the last of them
+    this.refreshHandlesInBackground();
+  }
+
+  // ============ Return Tracks ============
+
+  /**
+   * Get a return track by index
+   */
+  getReturnTrack(returnId: number): ReturnTrack {
+    return new ReturnTrack(this.client, returnId);
+  }
+
+  /**
+   * Get all return track names
+   */
+  async getReturnTrackNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(this.client, "song/get/return_tracks", [], options);
+  }
+
+  /**
+   * Get the return track with a matching name
+   */
+  async findReturnTrack(
+    query: NameQuery,
+    options?: FindOptions
+  ): Promise<ReturnTrack> {
+    const names = await this.getReturnTrackNames(options);
+    return this.getReturnTrack(
+      findByName("return track", names, query, options)
+    );
+  }
+
+  /**
+   * Get number of return tracks
+   */
+  async getNumReturnTracks(options?: QueryOptions): Promise<number> {
+    const names = await this.getReturnTrackNames(options);
+    return names.length;
   }
 
   // ============ Scenes ============
@@ -233,38 +606,47 @@ export class Ableton extends EventEmitter<AbletonEvents> {
   /**
    * Get all scene names
    */
-  async getSceneNames(): Promise<string[]> {
-    const res = await this.client.query("/live/song/get/scene_names");
-    return res.args as string[];
+  async getSceneNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(this.client, "song/get/scene_names", [], options);
+  }
+
+  /**
+   * Get the scene with a matching name
+   */
+  async findScene(query: NameQuery, options?: FindOptions): Promise<Scene> {
+    const names = await this.getSceneNames(options);
+    return this.getScene(findByName("scene", names, query, options));
   }
 
   /**
    * Get number of scenes
    */
-  async getNumScenes(): Promise<number> {
-    const res = await this.client.query("/live/song/get/num_scenes");
-    return res.args[0] as number;
+  async getNumScenes(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "song/get/num_scenes", [], options);
   }
 
   /**
    * Create a new scene
    */
   createScene(index = -1): void {
-    this.client.send("/live/song/create_scene", index);
+    sendEndpoint(this.client, "song/create_scene", [index]);
+    this.handles.inserted("scene", index);
   }
 
   /**
    * Delete a scene
    */
   deleteScene(sceneId: number): void {
-    this.client.send("/live/song/delete_scene", sceneId);
+    sendEndpoint(this.client, "song/delete_scene", [sceneId]);
+    this.handles.removed("scene", sceneId);
   }
 
   /**
    * Duplicate a scene
    */
   duplicateScene(sceneId: number): void {
-    this.client.send("/live/song/duplicate_scene", sceneId);
+    sendEndpoint(this.client, "song/duplicate_scene", [sceneId]);
+    this.handles.inserted("scene", sceneId + 1);
   }
 
   // ============ View ============
@@ -272,31 +654,29 @@ export class Ableton extends EventEmitter<AbletonEvents> {
   /**
    * Get currently selected track index
    */
-  async getSelectedTrack(): Promise<number> {
-    const res = await this.client.query("/live/view/get/selected_track");
-    return res.args[0] as number;
+  async getSelectedTrack(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "view/get/selected_track", [], options);
   }
 
   /**
    * Set selected track
    */
   setSelectedTrack(trackId: number): void {
-    this.client.send("/live/view/set/selected_track", trackId);
+    sendEndpoint(this.client, "view/set/selected_track", [trackId]);
   }
 
   /**
    * Get currently selected scene index
    */
-  async getSelectedScene(): Promise<number> {
-    const res = await this.client.query("/live/view/get/selected_scene");
-    return res.args[0] as number;
+  async getSelectedScene(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "view/get/selected_scene", [], options);
   }
 
   /**
    * Set selected scene
    */
   setSelectedScene(sceneId: number): void {
-    this.client.send("/live/view/set/selected_scene", sceneId);
+    sendEndpoint(this.client, "view/set/selected_scene", [sceneId]);
   }
 }
 
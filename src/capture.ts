@@ -0,0 +1,320 @@
+/**
+ * Packet capture and replay
+ *
+ * Records OSC traffic to JSONL (one packet per line) so problems seen
+ * during a show can be reproduced offline.
+ */
+
+import fs from "node:fs";
+import {
+  buildOSCPacket,
+  parseOSCPacket,
+  unpackOSCPacket,
+  type OSCArgument,
+  type OSCClient,
+  type OSCMessage,
+  type OSCValue,
+} from "./osc.js";
+import type { RemoteInfo } from "./transport.js";
+
+export type CaptureDirection = "in" | "out";
+
+export interface CaptureRecord {
+  /** Unix time in ms */
+  time: number;
+  direction: CaptureDirection;
+  /**
+   * Sender of an incoming packet, or destination of an outgoing one, when
+   * the transport reports it
+   */
+  remote?: RemoteInfo;
+  /** Decoded messages; bundles are unpacked */
+  messages: OSCMessage[];
+  /** Exact packet bytes; rebuilt from `messages` when missing */
+  data?: Buffer;
+}
+
+export interface PacketRecorderOptions {
+  /** Append to an existing file instead of replacing it (default: false) */
+  append?: boolean;
+}
+
+export interface ReplayOptions {
+  /**
+   * "receive" feeds incoming packets to the client's listeners as if Live
+   * had sent them; "send" re-sends outgoing packets (default: "receive")
+   */
+  mode?: "receive" | "send";
+  /** Timing multiplier: 1 = original, 2 = twice as fast, 0 = no delays */
+  speed?: number;
+  /** Stops the replay; the promise rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Records every packet an OSCClient sends and receives
+ *
+ * @example
+ * ```typescript
+ * const recorder = new PacketRecorder(ableton.osc, "show.jsonl");
+ * // ...
+ * await recorder.stop();
+ * ```
+ */
+export class PacketRecorder {
+  private client: OSCClient;
+  private stream: NodeJS.WritableStream;
+  private ownsStream: boolean;
+  private _count = 0;
+  private failure: Error | null = null;
+
+  constructor(
+    client: OSCClient,
+    destination: string | NodeJS.WritableStream,
+    options: PacketRecorderOptions = {}
+  ) {
+    this.client = client;
+    if (typeof destination === "string") {
+      this.stream = fs.createWriteStream(destination, {
+        flags: options.append ? "a" : "w",
+      });
+      this.ownsStream = true;
+    } else {
+      this.stream = destination;
+      this.ownsStream = false;
+    }
+
+    // A failed write (e.g. a missing directory) stops the recording
+    // instead of crashing the process
+    this.stream.on("error", this.onError);
+
+    this.client.on("sent", this.onSent);
+    this.client.on("received", this.onReceived);
+  }
+
+  /**
+   * Number of packets recorded so far
+   */
+  get count(): number {
+    return this._count;
+  }
+
+  /**
+   * The error that stopped the recording, if writing failed
+   */
+  get error(): Error | null {
+    return this.failure;
+  }
+
+  /**
+   * Stop recording; resolves once a file destination has been flushed, and
+   * rejects with the write error if writing failed
+   */
+  async stop(): Promise<void> {
+    this.detach();
+    if (this.failure) {
+      throw this.failure;
+    }
+    if (!this.ownsStream) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.stream.once("error", reject);
+      this.stream.end(resolve);
+    });
+  }
+
+  private detach(): void {
+    this.client.off("sent", this.onSent);
+    this.client.off("received", this.onReceived);
+  }
+
+  private onError = (err: Error) => {
+    this.failure ??= err;
+    this.detach();
+    // Also report it right away to whoever watches the client's errors
+    if (this.client.listenerCount("error") > 0) {
+      this.client.emit("error", err);
+    }
+  };
+
+  private onSent = (data: Buffer, remote?: RemoteInfo) => {
+    this.write("out", data, remote);
+  };
+
+  private onReceived = (data: Buffer, remote?: RemoteInfo) => {
+    this.write("in", data, remote);
+  };
+
+  private write(
+    direction: CaptureDirection,
+    data: Buffer,
+    remote?: RemoteInfo
+  ): void {
+    let messages: OSCMessage[] = [];
+    try {
+      messages = unpackOSCPacket(parseOSCPacket(data));
+    } catch {
+      // Keep malformed packets; the raw bytes are what matters for a report
+    }
+    const record: CaptureRecord = {
+      time: Date.now(),
+      direction,
+      remote,
+      messages,
+      data,
+    };
+    this.stream.write(serializeCaptureRecord(record) + "\n");
+    this._count++;
+  }
+}
+
+/**
+ * Encode a capture record as one JSON line
+ */
+export function serializeCaptureRecord(record: CaptureRecord): string {
+  return JSON.stringify({
+    time: record.time,
+    direction: record.direction,
+    remote: record.remote,
+    messages: record.messages.map((msg) => ({
+      address: msg.address,
+      args: msg.args.map(encodeJSONValue),
+    })),
+    data: record.data?.toString("base64"),
+  });
+}
+
+/**
+ * Parse JSONL capture text; blank lines are skipped
+ */
+export function parseCapture(text: string): CaptureRecord[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const raw = JSON.parse(line);
+      return {
+        time: raw.time,
+        direction: raw.direction,
+        remote: raw.remote ?? undefined,
+        messages: (raw.messages ?? []).map(
+          (msg: { address: string; args?: unknown[] }) => ({
+            address: msg.address,
+            args: (msg.args ?? []).map(decodeJSONValue),
+          })
+        ),
+        data:
+          typeof raw.data === "string"
+            ? Buffer.from(raw.data, "base64")
+            : undefined,
+      };
+    });
+}
+
+/**
+ * Read a capture file written by PacketRecorder
+ */
+export async function readCapture(path: string): Promise<CaptureRecord[]> {
+  return parseCapture(await fs.promises.readFile(path, "utf8"));
+}
+
+/**
+ * Replay a capture through a client, keeping the recorded timing
+ * (scaled by `speed`); resolves with the number of packets replayed
+ *
+ * @example
+ * ```typescript
+ * // Reproduce what Live sent, with no Live running
+ * ableton.osc.on("message", (msg) => console.log(msg));
+ * await replayCapture(ableton.osc, "show.jsonl", { speed: 0 });
+ * ```
+ */
+export async function replayCapture(
+  client: OSCClient,
+  capture: CaptureRecord[] | string,
+  options: ReplayOptions = {}
+): Promise<number> {
+  const records =
+    typeof capture === "string" ? await readCapture(capture) : capture;
+  const mode = options.mode ?? "receive";
+  const speed = options.speed ?? 1;
+  const { signal } = options;
+  const direction: CaptureDirection = mode === "receive" ? "in" : "out";
+  const selected = records.filter((r) => r.direction === direction);
+
+  signal?.throwIfAborted();
+  const started = Date.now();
+  const first = selected[0]?.time ?? 0;
+
+  for (const record of selected) {
+    if (speed > 0) {
+      const due = started + (record.time - first) / speed;
+      await sleep(due - Date.now(), signal);
+    }
+    signal?.throwIfAborted();
+
+    const packets = record.data
+      ? [record.data]
+      : record.messages.map((msg) => buildOSCPacket(msg));
+    for (const data of packets) {
+      if (mode === "receive") {
+        client.receive(data, record.remote);
+      } else {
+        client.sendRaw(data);
+      }
+    }
+  }
+
+  return selected.length;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * JSON form of an argument; values JSON cannot hold are wrapped, e.g.
+ * `{ $bigint: "1" }`, `{ $base64: "..." }` or `{ $number: "Infinity" }`
+ */
+function encodeJSONValue(value: OSCArgument): unknown {
+  if (typeof value === "bigint") {
+    return { $bigint: value.toString() };
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return { $number: String(value) };
+  }
+  if (value instanceof Uint8Array) {
+    return { $base64: Buffer.from(value).toString("base64") };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeJSONValue);
+  }
+  return value;
+}
+
+function decodeJSONValue(value: unknown): OSCValue {
+  if (Array.isArray(value)) {
+    return value.map(decodeJSONValue);
+  }
+  if (value !== null && typeof value === "object") {
+    const wrapped = value as Record<string, string>;
+    if ("$bigint" in wrapped) return BigInt(wrapped.$bigint);
+    if ("$number" in wrapped) return Number(wrapped.$number);
+    if ("$base64" in wrapped) return Buffer.from(wrapped.$base64, "base64");
+  }
+  return value as OSCValue;
+}
@@ -2,17 +2,52 @@
  * ClipSlot class - represents a clip slot (cell) in the Session View
  */
 
-import { OSCClient } from "./osc.js";
+import { OSCClient, type QueryOptions } from "./osc.js";
+import {
+  requestEndpoint,
+  sendEndpoint,
+  type EndpointResult,
+} from "./schema.js";
+import {
+  iterate,
+  ListenerRegistry,
+  type ListenerCallback,
+  type WatchOptions,
+} from "./listeners.js";
+import { HandleRegistry, type IndexSlot } from "./handles.js";
+
+/** Clip slot properties that can be observed with `on()` */
+export type ClipSlotEvent = "has_clip" | "is_playing" | "is_triggered";
+
+export type ClipSlotEvents = {
+  [K in ClipSlotEvent]: EndpointResult<`clip_slot/get/${K}`>;
+};
 
 export class ClipSlot {
   private client: OSCClient;
-  readonly trackId: number;
-  readonly id: number;
+  private trackSlot: IndexSlot;
+  private sceneSlot: IndexSlot;
 
   constructor(client: OSCClient, trackId: number, slotId: number) {
     this.client = client;
-    this.trackId = trackId;
-    this.id = slotId;
+    const handles = HandleRegistry.for(client);
+    this.trackSlot = handles.slot("track", trackId);
+    this.sceneSlot = handles.slot("scene", slotId);
+  }
+
+  /** Current index of the slot's track */
+  get trackId(): number {
+    return this.trackSlot.index;
+  }
+
+  /** Current index of the slot, which is its scene's index */
+  get id(): number {
+    return this.sceneSlot.index;
+  }
+
+  /** Whether the track or scene of this clip slot was deleted */
+  get stale(): boolean {
+    return this.trackSlot.stale || this.sceneSlot.stale;
   }
 
   // ============ Actions ============
@@ -21,39 +56,37 @@ export class ClipSlot {
    * Fire the clip slot (launch the clip if present, or stop if empty)
    */
   fire(): void {
-    this.client.send("/live/clip_slot/fire", this.trackId, this.id);
+    sendEndpoint(this.client, "clip_slot/fire", [this.trackId, this.id]);
   }
 
   /**
    * Create a new empty clip with the specified length in beats
    */
   createClip(length: number): void {
-    this.client.send(
-      "/live/clip_slot/create_clip",
+    sendEndpoint(this.client, "clip_slot/create_clip", [
       this.trackId,
       this.id,
-      length
-    );
+      length,
+    ]);
   }
 
   /**
    * Delete the clip in this slot
    */
   deleteClip(): void {
-    this.client.send("/live/clip_slot/delete_clip", this.trackId, this.id);
+    sendEndpoint(this.client, "clip_slot/delete_clip", [this.trackId, this.id]);
   }
 
   /**
    * Duplicate the clip to another track and clip slot
    */
   duplicateClipTo(targetTrackId: number, targetSlotId: number): void {
-    this.client.send(
-      "/live/clip_slot/duplicate_clip_to",
+    sendEndpoint(this.client, "clip_slot/duplicate_clip_to", [
       this.trackId,
       this.id,
       targetTrackId,
-      targetSlotId
-    );
+      targetSlotId,
+    ]);
   }
 
   // ============ Getters ============
@@ -61,61 +94,104 @@ export class ClipSlot {
   /**
    * Check if this slot contains a clip
    */
-  async getHasClip(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip_slot/get/has_clip",
-      this.trackId,
-      this.id
+  async getHasClip(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip_slot/get/has_clip",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if this slot has a stop button
    */
-  async getHasStopButton(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip_slot/get/has_stop_button",
-      this.trackId,
-      this.id
+  async getHasStopButton(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip_slot/get/has_stop_button",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if the clip in this slot is playing
    */
-  async getIsPlaying(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip_slot/get/is_playing",
-      this.trackId,
-      this.id
+  async getIsPlaying(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip_slot/get/is_playing",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if the clip in this slot is recording
    */
-  async getIsRecording(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip_slot/get/is_recording",
-      this.trackId,
-      this.id
+  async getIsRecording(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip_slot/get/is_recording",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if the clip in this slot is triggered (about to play)
    */
-  async getIsTriggered(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip_slot/get/is_triggered",
-      this.trackId,
-      this.id
+  async getIsTriggered(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip_slot/get/is_triggered",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
+  }
+
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a property and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on<K extends ClipSlotEvent>(
+    event: K,
+    handler: (value: ClipSlotEvents[K]) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `clip_slot/get/${event as ClipSlotEvent}`,
+      [this.trackSlot, this.sceneSlot],
+      handler as ListenerCallback
+    );
+  }
+
+  /**
+   * Remove a handler added with `on()`
+   */
+  off<K extends ClipSlotEvent>(
+    event: K,
+    handler: (value: ClipSlotEvents[K]) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `clip_slot/get/${event as ClipSlotEvent}`,
+      [this.trackSlot, this.sceneSlot],
+      handler as ListenerCallback
+    );
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   */
+  watch<K extends ClipSlotEvent>(
+    event: K,
+    options?: WatchOptions<ClipSlotEvents[K]>
+  ): AsyncIterableIterator<ClipSlotEvents[K]> {
+    return iterate((cb) => this.on(event, cb), options);
   }
 
   // ============ Setters ============
@@ -124,11 +200,10 @@ export class ClipSlot {
    * Set whether this slot has a stop button
    */
   async setHasStopButton(hasStopButton: boolean): Promise<void> {
-    this.client.send(
-      "/live/clip_slot/set/has_stop_button",
+    sendEndpoint(this.client, "clip_slot/set/has_stop_button", [
       this.trackId,
       this.id,
-      hasStopButton ? 1 : 0
-    );
+      hasStopButton,
+    ]);
   }
 }
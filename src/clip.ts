@@ -2,7 +2,19 @@
  * Clip class - represents a clip in a track
  */
 
-import { OSCClient } from "./osc.js";
+import { OSCClient, type QueryOptions } from "./osc.js";
+import {
+  requestEndpoint,
+  sendEndpoint,
+  type EndpointResult,
+} from "./schema.js";
+import {
+  iterate,
+  ListenerRegistry,
+  type WatchOptions,
+  type ListenerCallback,
+} from "./listeners.js";
+import { HandleRegistry, type IndexSlot } from "./handles.js";
 
 export enum LaunchMode {
   Trigger = 0,
@@ -47,172 +59,195 @@ export interface Note {
   mute: boolean;
 }
 
+/** Clip properties that can be observed with `on()` */
+export type ClipEvent = "playing_position" | "name";
+
+export type ClipEvents = {
+  [K in ClipEvent]: EndpointResult<`clip/get/${K}`>;
+};
+
 export class Clip {
   private client: OSCClient;
-  readonly trackId: number;
-  readonly id: number;
-  private positionListening = false;
+  private trackSlot: IndexSlot;
+  private sceneSlot: IndexSlot;
+  private stopPositionListen: (() => void) | null = null;
 
   constructor(client: OSCClient, trackId: number, clipId: number) {
     this.client = client;
-    this.trackId = trackId;
-    this.id = clipId;
+    const handles = HandleRegistry.for(client);
+    this.trackSlot = handles.slot("track", trackId);
+    this.sceneSlot = handles.slot("scene", clipId);
+  }
+
+  /** Current index of the clip's track */
+  get trackId(): number {
+    return this.trackSlot.index;
+  }
+
+  /** Current index of the clip's slot, which is its scene's index */
+  get id(): number {
+    return this.sceneSlot.index;
+  }
+
+  /** Whether the track or scene of this clip was deleted */
+  get stale(): boolean {
+    return this.trackSlot.stale || this.sceneSlot.stale;
   }
 
   // ============ Transport ============
 
   fire(): void {
-    this.client.send("/live/clip/fire", this.trackId, this.id);
+    sendEndpoint(this.client, "clip/fire", [this.trackId, this.id]);
   }
 
   stop(): void {
-    this.client.send("/live/clip/stop", this.trackId, this.id);
+    sendEndpoint(this.client, "clip/stop", [this.trackId, this.id]);
   }
 
   // ============ Getters ============
 
-  async getName(): Promise<string> {
-    const res = await this.client.query(
-      "/live/clip/get/name",
-      this.trackId,
-      this.id
+  async getName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/name",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as string;
   }
 
-  async getColor(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/color",
-      this.trackId,
-      this.id
+  async getColor(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/color",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getColorIndex(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/color_index",
-      this.trackId,
-      this.id
+  async getColorIndex(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/color_index",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getLength(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/length",
-      this.trackId,
-      this.id
+  async getLength(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/length",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getGain(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/gain",
-      this.trackId,
-      this.id
+  async getGain(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/gain",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getIsPlaying(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/is_playing",
-      this.trackId,
-      this.id
+  async getIsPlaying(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/is_playing",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
-  async getIsRecording(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/is_recording",
-      this.trackId,
-      this.id
+  async getIsRecording(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/is_recording",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
-  async getIsAudioClip(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/is_audio_clip",
-      this.trackId,
-      this.id
+  async getIsAudioClip(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/is_audio_clip",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
-  async getIsMidiClip(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/is_midi_clip",
-      this.trackId,
-      this.id
+  async getIsMidiClip(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/is_midi_clip",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
-  async getPlayingPosition(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/playing_position",
-      this.trackId,
-      this.id
+  async getPlayingPosition(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/playing_position",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getLoopStart(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/loop_start",
-      this.trackId,
-      this.id
+  async getLoopStart(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/loop_start",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getLoopEnd(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/loop_end",
-      this.trackId,
-      this.id
+  async getLoopEnd(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/loop_end",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
-  async getLaunchMode(): Promise<LaunchMode> {
-    const res = await this.client.query(
-      "/live/clip/get/launch_mode",
-      this.trackId,
-      this.id
+  async getLaunchMode(options?: QueryOptions): Promise<LaunchMode> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/launch_mode",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as LaunchMode;
   }
 
-  async getWarpMode(): Promise<WarpMode> {
-    const res = await this.client.query(
-      "/live/clip/get/warp_mode",
-      this.trackId,
-      this.id
+  async getWarpMode(options?: QueryOptions): Promise<WarpMode> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/warp_mode",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as WarpMode;
   }
 
-  async getMuted(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/muted",
-      this.trackId,
-      this.id
+  async getMuted(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/muted",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
-  async getFilePath(): Promise<string> {
-    const res = await this.client.query(
-      "/live/clip/get/file_path",
-      this.trackId,
-      this.id
+  async getFilePath(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/file_path",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as string;
   }
 
   // ============ New Getters ============
@@ -220,264 +255,269 @@ export class Clip {
   /**
    * Get the sample length (for audio clips)
    */
-  async getSampleLength(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/sample_length",
-      this.trackId,
-      this.id
+  async getSampleLength(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/sample_length",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Get the start time of the clip
    */
-  async getStartTime(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/start_time",
-      this.trackId,
-      this.id
+  async getStartTime(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/start_time",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Check if the clip is currently overdubbing
    */
-  async getIsOverdubbing(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/is_overdubbing",
-      this.trackId,
-      this.id
+  async getIsOverdubbing(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/is_overdubbing",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if the clip will start recording when fired
    */
-  async getWillRecordOnStart(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/will_record_on_start",
-      this.trackId,
-      this.id
+  async getWillRecordOnStart(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/will_record_on_start",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if warping is enabled (audio clips)
    */
-  async getWarping(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/warping",
-      this.trackId,
-      this.id
+  async getWarping(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/warping",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Check if the clip has a groove applied
    */
-  async getHasGroove(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/has_groove",
-      this.trackId,
-      this.id
+  async getHasGroove(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/has_groove",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Get legato mode (MIDI clips)
    */
-  async getLegato(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/legato",
-      this.trackId,
-      this.id
+  async getLegato(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/legato",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Get the current playback position
    */
-  async getPosition(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/position",
-      this.trackId,
-      this.id
+  async getPosition(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/position",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Get the velocity amount (how much velocity affects volume)
    */
-  async getVelocityAmount(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/velocity_amount",
-      this.trackId,
-      this.id
+  async getVelocityAmount(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/velocity_amount",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Get the start marker position
    */
-  async getStartMarker(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/start_marker",
-      this.trackId,
-      this.id
+  async getStartMarker(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/start_marker",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Get the end marker position
    */
-  async getEndMarker(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/end_marker",
-      this.trackId,
-      this.id
+  async getEndMarker(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/end_marker",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Get RAM mode (audio clips - whether to load into RAM)
    */
-  async getRamMode(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/ram_mode",
-      this.trackId,
-      this.id
+  async getRamMode(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/ram_mode",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Get the launch quantization for this clip
    */
-  async getLaunchQuantization(): Promise<LaunchQuantization> {
-    const res = await this.client.query(
-      "/live/clip/get/launch_quantization",
-      this.trackId,
-      this.id
+  async getLaunchQuantization(
+    options?: QueryOptions
+  ): Promise<LaunchQuantization> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/launch_quantization",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as LaunchQuantization;
   }
 
   /**
    * Check if loop is enabled
    */
-  async getLooping(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/clip/get/looping",
-      this.trackId,
-      this.id
+  async getLooping(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/looping",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as boolean;
   }
 
   /**
    * Get pitch coarse (semitones) for audio clips
    */
-  async getPitchCoarse(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/pitch_coarse",
-      this.trackId,
-      this.id
+  async getPitchCoarse(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/pitch_coarse",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   /**
    * Get pitch fine (cents) for audio clips
    */
-  async getPitchFine(): Promise<number> {
-    const res = await this.client.query(
-      "/live/clip/get/pitch_fine",
-      this.trackId,
-      this.id
+  async getPitchFine(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "clip/get/pitch_fine",
+      [this.trackId, this.id],
+      options
     );
-    return res.args[2] as number;
   }
 
   // ============ Setters ============
 
   async setName(name: string): Promise<void> {
-    this.client.send("/live/clip/set/name", this.trackId, this.id, name);
+    sendEndpoint(this.client, "clip/set/name", [this.trackId, this.id, name]);
   }
 
   async setColor(color: number): Promise<void> {
-    this.client.send("/live/clip/set/color", this.trackId, this.id, color);
+    sendEndpoint(this.client, "clip/set/color", [this.trackId, this.id, color]);
   }
 
   async setColorIndex(colorIndex: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/color_index",
+    sendEndpoint(this.client, "clip/set/color_index", [
       this.trackId,
       this.id,
-      colorIndex
-    );
+      colorIndex,
+    ]);
   }
 
   async setGain(gain: number): Promise<void> {
-    this.client.send("/live/clip/set/gain", this.trackId, this.id, gain);
+    sendEndpoint(this.client, "clip/set/gain", [this.trackId, this.id, gain]);
   }
 
   async setLoopStart(position: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/loop_start",
+    sendEndpoint(this.client, "clip/set/loop_start", [
       this.trackId,
       this.id,
-      position
-    );
+      position,
+    ]);
   }
 
   async setLoopEnd(position: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/loop_end",
+    sendEndpoint(this.client, "clip/set/loop_end", [
       this.trackId,
       this.id,
-      position
-    );
+      position,
+    ]);
   }
 
   async setLaunchMode(mode: LaunchMode): Promise<void> {
-    this.client.send("/live/clip/set/launch_mode", this.trackId, this.id, mode);
+    sendEndpoint(this.client, "clip/set/launch_mode", [
+      this.trackId,
+      this.id,
+      mode,
+    ]);
   }
 
   async setWarpMode(mode: WarpMode): Promise<void> {
-    this.client.send("/live/clip/set/warp_mode", this.trackId, this.id, mode);
+    sendEndpoint(this.client, "clip/set/warp_mode", [
+      this.trackId,
+      this.id,
+      mode,
+    ]);
   }
 
   async setMuted(muted: boolean): Promise<void> {
-    this.client.send(
-      "/live/clip/set/muted",
-      this.trackId,
-      this.id,
-      muted ? 1 : 0
-    );
+    sendEndpoint(this.client, "clip/set/muted", [this.trackId, this.id, muted]);
   }
 
   async setPitchCoarse(semitones: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/pitch_coarse",
+    sendEndpoint(this.client, "clip/set/pitch_coarse", [
       this.trackId,
       this.id,
-      semitones
-    );
+      semitones,
+    ]);
   }
 
   async setPitchFine(cents: number): Promise<void> {
-    this.client.send("/live/clip/set/pitch_fine", this.trackId, this.id, cents);
+    sendEndpoint(this.client, "clip/set/pitch_fine", [
+      this.trackId,
+      this.id,
+      cents,
+    ]);
   }
 
   // ============ New Setters ============
@@ -486,139 +526,180 @@ export class Clip {
    * Enable or disable warping (audio clips)
    */
   async setWarping(enabled: boolean): Promise<void> {
-    this.client.send(
-      "/live/clip/set/warping",
+    sendEndpoint(this.client, "clip/set/warping", [
       this.trackId,
       this.id,
-      enabled ? 1 : 0
-    );
+      enabled,
+    ]);
   }
 
   /**
    * Set legato mode (MIDI clips)
    */
   async setLegato(enabled: boolean): Promise<void> {
-    this.client.send(
-      "/live/clip/set/legato",
+    sendEndpoint(this.client, "clip/set/legato", [
       this.trackId,
       this.id,
-      enabled ? 1 : 0
-    );
+      enabled,
+    ]);
   }
 
   /**
    * Set the playback position
    */
   async setPosition(position: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/position",
+    sendEndpoint(this.client, "clip/set/position", [
       this.trackId,
       this.id,
-      position
-    );
+      position,
+    ]);
   }
 
   /**
    * Set the velocity amount
    */
   async setVelocityAmount(amount: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/velocity_amount",
+    sendEndpoint(this.client, "clip/set/velocity_amount", [
       this.trackId,
       this.id,
-      amount
-    );
+      amount,
+    ]);
   }
 
   /**
    * Set the start marker position
    */
   async setStartMarker(position: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/start_marker",
+    sendEndpoint(this.client, "clip/set/start_marker", [
       this.trackId,
       this.id,
-      position
-    );
+      position,
+    ]);
   }
 
   /**
    * Set the end marker position
    */
   async setEndMarker(position: number): Promise<void> {
-    this.client.send(
-      "/live/clip/set/end_marker",
+    sendEndpoint(this.client, "clip/set/end_marker", [
       this.trackId,
       this.id,
-      position
-    );
+      position,
+    ]);
   }
 
   /**
    * Set RAM mode (audio clips - whether to load into RAM)
    */
   async setRamMode(enabled: boolean): Promise<void> {
-    this.client.send(
-      "/live/clip/set/ram_mode",
+    sendEndpoint(this.client, "clip/set/ram_mode", [
       this.trackId,
       this.id,
-      enabled ? 1 : 0
-    );
+      enabled,
+    ]);
   }
 
   /**
    * Set the launch quantization for this clip
    */
   async setLaunchQuantization(quantization: LaunchQuantization): Promise<void> {
-    this.client.send(
-      "/live/clip/set/launch_quantization",
+    sendEndpoint(this.client, "clip/set/launch_quantization", [
       this.trackId,
       this.id,
-      quantization
-    );
+      quantization,
+    ]);
   }
 
   /**
    * Enable or disable looping
    */
   async setLooping(enabled: boolean): Promise<void> {
-    this.client.send(
-      "/live/clip/set/looping",
+    sendEndpoint(this.client, "clip/set/looping", [
       this.trackId,
       this.id,
-      enabled ? 1 : 0
+      enabled,
+    ]);
+  }
+
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a property and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on<K extends ClipEvent>(
+    event: K,
+    handler: (value: ClipEvents[K]) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `clip/get/${event as ClipEvent}`,
+      [this.trackSlot, this.sceneSlot],
+      handler as ListenerCallback
     );
   }
 
+  /**
+   * Remove a handler added with `on()`
+   */
+  off<K extends ClipEvent>(
+    event: K,
+    handler: (value: ClipEvents[K]) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `clip/get/${event as ClipEvent}`,
+      [this.trackSlot, this.sceneSlot],
+      handler as ListenerCallback
+    );
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   */
+  watch<K extends ClipEvent>(
+    event: K,
+    options?: WatchOptions<ClipEvents[K]>
+  ): AsyncIterableIterator<ClipEvents[K]> {
+    return iterate((cb) => this.on(event, cb), options);
+  }
+
   // ============ Playing Position Listener ============
 
   /**
-   * Start listening for playing position updates
-   * Note: You need to handle /live/clip/get/playing_position OSC messages
+   * Keep the playing position listen running without a callback
    */
   startListenPlayingPosition(): void {
-    if (!this.positionListening) {
-      this.client.send(
-        "/live/clip/start_listen/playing_position",
-        this.trackId,
-        this.id
-      );
-      this.positionListening = true;
+    if (!this.stopPositionListen) {
+      this.stopPositionListen = this.addPlayingPositionListener(() => {});
     }
   }
 
   /**
-   * Stop listening for playing position updates
+   * Undo `startListenPlayingPosition()`; the listen stops once no callbacks
+   * are left
    */
   stopListenPlayingPosition(): void {
-    if (this.positionListening) {
-      this.client.send(
-        "/live/clip/stop_listen/playing_position",
-        this.trackId,
-        this.id
-      );
-      this.positionListening = false;
-    }
+    this.stopPositionListen?.();
+    this.stopPositionListen = null;
+  }
+
+  /**
+   * Call `callback` with the playing position (in beats) while the clip
+   * plays. Shares the listen with `on("playing_position")`.
+   */
+  addPlayingPositionListener(callback: (position: number) => void): () => void {
+    return this.on("playing_position", callback);
+  }
+
+  /**
+   * Playing positions as an async iterator, ending when the loop exits or
+   * the signal is aborted
+   */
+  playingPositions(
+    options?: WatchOptions<number>
+  ): AsyncIterableIterator<number> {
+    return iterate((cb) => this.addPlayingPositionListener(cb), options);
   }
 
   // ============ MIDI Notes ============
@@ -627,47 +708,44 @@ export class Clip {
     startPitch?: number,
     pitchSpan?: number,
     startTime?: number,
-    timeSpan?: number
+    timeSpan?: number,
+    options?: QueryOptions
   ): Promise<Note[]> {
-    const args: (string | number | boolean)[] = [this.trackId, this.id];
-    if (
+    const range: [number, number, number, number] | [] =
       startPitch !== undefined &&
       pitchSpan !== undefined &&
       startTime !== undefined &&
       timeSpan !== undefined
-    ) {
-      args.push(startPitch, pitchSpan, startTime, timeSpan);
-    }
+        ? [startPitch, pitchSpan, startTime, timeSpan]
+        : [];
 
-    const res = await this.client.query("/live/clip/get/notes", ...args);
-
-    // Parse response: track_id, clip_id, then groups of 5 (pitch, start, dur, vel, mute)
-    const notes: Note[] = [];
-    const data = res.args.slice(2);
-    for (let i = 0; i < data.length; i += 5) {
-      notes.push({
-        pitch: data[i] as number,
-        startTime: data[i + 1] as number,
-        duration: data[i + 2] as number,
-        velocity: data[i + 3] as number,
-        mute: data[i + 4] as boolean,
-      });
-    }
-    return notes;
+    const groups = await requestEndpoint(
+      this.client,
+      "clip/get/notes",
+      [this.trackId, this.id, ...range],
+      options
+    );
+    return groups.map(([pitch, startTime, duration, velocity, mute]) => ({
+      pitch,
+      startTime,
+      duration,
+      velocity,
+      mute,
+    }));
   }
 
   async addNotes(notes: Note[]): Promise<void> {
-    const args: (string | number | boolean)[] = [this.trackId, this.id];
-    for (const note of notes) {
-      args.push(
+    sendEndpoint(this.client, "clip/add/notes", [
+      this.trackId,
+      this.id,
+      ...notes.flatMap((note) => [
         note.pitch,
         note.startTime,
         note.duration,
         note.velocity,
-        note.mute
-      );
-    }
-    this.client.send("/live/clip/add/notes", ...args);
+        note.mute,
+      ]),
+    ]);
   }
 
   async removeNotes(
@@ -682,24 +760,23 @@ export class Clip {
       startTime !== undefined &&
       timeSpan !== undefined
     ) {
-      this.client.send(
-        "/live/clip/remove/notes",
+      sendEndpoint(this.client, "clip/remove/notes", [
         this.trackId,
         this.id,
         startPitch,
         pitchSpan,
         startTime,
-        timeSpan
-      );
+        timeSpan,
+      ]);
     } else {
-      this.client.send("/live/clip/remove/notes", this.trackId, this.id);
+      sendEndpoint(this.client, "clip/remove/notes", [this.trackId, this.id]);
     }
   }
 
   // ============ Loop ============
 
   duplicateLoop(): void {
-    this.client.send("/live/clip/duplicate_loop", this.trackId, this.id);
+    sendEndpoint(this.client, "clip/duplicate_loop", [this.trackId, this.id]);
   }
 
   // ============ Quantize ============
@@ -708,12 +785,11 @@ export class Clip {
    * Quantize the clip's notes
    */
   quantize(gridSize: number, strength: number = 1.0): void {
-    this.client.send(
-      "/live/clip/quantize",
+    sendEndpoint(this.client, "clip/quantize", [
       this.trackId,
       this.id,
       gridSize,
-      strength
-    );
+      strength,
+    ]);
   }
 }
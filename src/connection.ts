@@ -0,0 +1,200 @@
+/**
+ * Connection lifecycle driven by /live/test heartbeats
+ */
+
+import { EventEmitter } from "node:events";
+import { OSCClient } from "./osc.js";
+
+export type ConnectionState =
+  | "disconnected"
+  | "connecting"
+  | "online"
+  | "degraded"
+  | "offline";
+
+export interface ConnectionOptions {
+  /** Time between heartbeats in ms (default: 2000) */
+  heartbeatInterval?: number;
+  /** How long to wait for a heartbeat reply in ms (default: 1000) */
+  heartbeatTimeout?: number;
+  /** Consecutive missed heartbeats before going offline (default: 3) */
+  offlineAfter?: number;
+  /** Delay before rebinding the transport after an error in ms (default: 1000) */
+  reconnectDelay?: number;
+}
+
+export interface ConnectionEvents {
+  stateChange: [ConnectionState, ConnectionState];
+  online: [];
+  offline: [];
+}
+
+/**
+ * Tracks whether Live is actually reachable, not just whether our socket is
+ * bound. States:
+ * - connecting: transport open, no heartbeat answered yet
+ * - online: the last heartbeat was answered
+ * - degraded: recent heartbeats were missed, but fewer than `offlineAfter`
+ * - offline: Live has not answered `offlineAfter` heartbeats in a row
+ */
+export class ConnectionMonitor extends EventEmitter<ConnectionEvents> {
+  private client: OSCClient;
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private offlineAfter: number;
+  private reconnectDelay: number;
+  private _state: ConnectionState = "disconnected";
+  private _rtt: number | null = null;
+  private missed = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private _reconnecting = false;
+
+  constructor(client: OSCClient, options: ConnectionOptions = {}) {
+    super();
+    this.client = client;
+    this.heartbeatInterval = options.heartbeatInterval ?? 2000;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? 1000;
+    this.offlineAfter = options.offlineAfter ?? 3;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+
+    this.client.on("error", () => {
+      // A failed attempt schedules the next one itself
+      if (this.running && !this._reconnecting) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  /**
+   * Round-trip time of the last answered heartbeat in ms
+   */
+  get rtt(): number | null {
+    return this._rtt;
+  }
+
+  /**
+   * Whether the transport is being rebound. Errors raised meanwhile come
+   * from the attempt, which is retried until it succeeds or stop() is called.
+   */
+  get reconnecting(): boolean {
+    return this._reconnecting;
+  }
+
+  /**
+   * Start heartbeats; resolves once the first heartbeat has completed
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.missed = 0;
+    this.setState("connecting");
+    await this.heartbeat();
+  }
+
+  /**
+   * Stop heartbeats and reconnection attempts
+   */
+  stop(): void {
+    this.running = false;
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.setState("disconnected");
+  }
+
+  private async heartbeat(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    if (!this.client.isOpen) {
+      this.onMiss();
+      this.scheduleReconnect();
+    } else {
+      const started = Date.now();
+      // Skips the send queue, so the round trip does not include queueing
+      const ok = await this.client.ping({
+        timeout: this.heartbeatTimeout,
+        retry: false,
+        bypassRateLimit: true,
+      });
+      if (!this.running) {
+        return;
+      }
+      if (ok) {
+        this._rtt = Date.now() - started;
+        this.missed = 0;
+        this.setState("online");
+      } else {
+        this.onMiss();
+      }
+    }
+
+    if (this.running) {
+      this.heartbeatTimer = setTimeout(
+        () => this.heartbeat(),
+        this.heartbeatInterval
+      );
+    }
+  }
+
+  private onMiss(): void {
+    this.missed++;
+    if (this._state === "connecting" || this.missed >= this.offlineAfter) {
+      this.setState("offline");
+    } else if (this._state === "online") {
+      this.setState("degraded");
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.running) {
+        return;
+      }
+      this._reconnecting = true;
+      try {
+        await this.client.reconnect();
+      } catch {
+        if (this.running) {
+          this.scheduleReconnect();
+        }
+      } finally {
+        this._reconnecting = false;
+      }
+    }, this.reconnectDelay);
+  }
+
+  private setState(state: ConnectionState): void {
+    const previous = this._state;
+    if (state === previous) {
+      return;
+    }
+    this._state = state;
+    this.emit("stateChange", state, previous);
+
+    if (state === "online" && previous !== "degraded") {
+      this.emit("online");
+    } else if (state === "offline") {
+      this.emit("offline");
+    }
+  }
+}
@@ -2,7 +2,11 @@
  * Device class - represents a device on a track
  */
 
-import { OSCClient } from "./osc.js";
+import { OSCClient, type QueryOptions } from "./osc.js";
+import { requestEndpoint, sendEndpoint, type TrackKind } from "./schema.js";
+import { iterate, ListenerRegistry, type WatchOptions } from "./listeners.js";
+import { findByName, type FindOptions, type NameQuery } from "./lookup.js";
+import { HandleRegistry, IndexSlot } from "./handles.js";
 
 export interface DeviceParameter {
   id: number;
@@ -21,69 +25,97 @@ export enum DeviceType {
 
 export class Device {
   private client: OSCClient;
-  readonly trackId: number;
+  private trackSlot: IndexSlot;
   readonly id: number;
+  /** Kind of track the device is on */
+  readonly kind: TrackKind;
 
-  constructor(client: OSCClient, trackId: number, deviceId: number) {
+  constructor(
+    client: OSCClient,
+    trackId: number,
+    deviceId: number,
+    kind: TrackKind = "track"
+  ) {
     this.client = client;
-    this.trackId = trackId;
+    // Only regular tracks move; return and master track indices are fixed
+    this.trackSlot =
+      kind === "track"
+        ? HandleRegistry.for(client).slot("track", trackId)
+        : new IndexSlot("track", trackId);
     this.id = deviceId;
+    this.kind = kind;
+  }
+
+  /** Index of the track or return track; 0 on the master track */
+  get trackId(): number {
+    return this.trackSlot.index;
+  }
+
+  /** Whether the device's track was deleted */
+  get stale(): boolean {
+    return this.trackSlot.stale;
   }
 
   // ============ Getters ============
 
-  async getName(): Promise<string> {
-    const res = await this.client.query(
-      "/live/device/get/name",
-      this.trackId,
-      this.id
+  async getName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "device/get/name",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args[2] as string;
   }
 
-  async getClassName(): Promise<string> {
-    const res = await this.client.query(
-      "/live/device/get/class_name",
-      this.trackId,
-      this.id
+  async getClassName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "device/get/class_name",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args[2] as string;
   }
 
-  async getIsActive(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/device/get/is_active",
-      this.trackId,
-      this.id
+  async getIsActive(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "device/get/is_active",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args[2] as boolean;
   }
 
-  async getNumParameters(): Promise<number> {
-    const res = await this.client.query(
-      "/live/device/get/num_parameters",
-      this.trackId,
-      this.id
+  async getNumParameters(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "device/get/num_parameters",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args[2] as number;
   }
 
-  async getParameterNames(): Promise<string[]> {
-    const res = await this.client.query(
-      "/live/device/get/parameters/name",
-      this.trackId,
-      this.id
+  async getParameterNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameters/name",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args.slice(2) as string[];
   }
 
-  async getParameterValues(): Promise<number[]> {
-    const res = await this.client.query(
-      "/live/device/get/parameters/value",
-      this.trackId,
-      this.id
+  async getParameterValues(options?: QueryOptions): Promise<number[]> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameters/value",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args.slice(2) as number[];
   }
 
   // ============ New Getters ============
@@ -91,84 +123,95 @@ export class Device {
   /**
    * Get the device type (AudioEffect, Instrument, MidiEffect)
    */
-  async getType(): Promise<DeviceType> {
-    const res = await this.client.query(
-      "/live/device/get/type",
-      this.trackId,
-      this.id
+  async getType(options?: QueryOptions): Promise<DeviceType> {
+    return requestEndpoint(
+      this.client,
+      "device/get/type",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args[2] as DeviceType;
   }
 
   /**
    * Get minimum values for all parameters
    */
-  async getParameterMins(): Promise<number[]> {
-    const res = await this.client.query(
-      "/live/device/get/parameters/min",
-      this.trackId,
-      this.id
+  async getParameterMins(options?: QueryOptions): Promise<number[]> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameters/min",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args.slice(2) as number[];
   }
 
   /**
    * Get maximum values for all parameters
    */
-  async getParameterMaxs(): Promise<number[]> {
-    const res = await this.client.query(
-      "/live/device/get/parameters/max",
-      this.trackId,
-      this.id
+  async getParameterMaxs(options?: QueryOptions): Promise<number[]> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameters/max",
+      [this.trackId, this.id],
+      options,
+      this.kind
     );
-    return res.args.slice(2) as number[];
   }
 
   /**
    * Check if a parameter is quantized (discrete values)
    */
-  async getParameterIsQuantized(paramId: number): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/device/get/parameter/is_quantized",
-      this.trackId,
-      this.id,
-      paramId
+  async getParameterIsQuantized(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameter/is_quantized",
+      [this.trackId, this.id, paramId],
+      options,
+      this.kind
     );
-    return res.args[3] as boolean;
   }
 
   /**
    * Get the string representation of a parameter value
    */
-  async getParameterValueString(paramId: number): Promise<string> {
-    const res = await this.client.query(
-      "/live/device/get/parameter/value_string",
-      this.trackId,
-      this.id,
-      paramId
+  async getParameterValueString(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameter/value_string",
+      [this.trackId, this.id, paramId],
+      options,
+      this.kind
     );
-    return res.args[3] as string;
   }
 
   // ============ Parameter Control ============
 
-  async getParameterValue(paramId: number): Promise<number> {
-    const res = await this.client.query(
-      "/live/device/get/parameter/value",
-      this.trackId,
-      this.id,
-      paramId
+  async getParameterValue(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameter/value",
+      [this.trackId, this.id, paramId],
+      options,
+      this.kind
     );
-    return res.args[3] as number;
   }
 
   async setParameterValue(paramId: number, value: number): Promise<void> {
-    this.client.send(
-      "/live/device/set/parameter/value",
-      this.trackId,
-      this.id,
-      paramId,
-      value
+    sendEndpoint(
+      this.client,
+      "device/set/parameter/value",
+      [this.trackId, this.id, paramId, value],
+      this.kind
     );
   }
 
@@ -177,63 +220,135 @@ export class Device {
    * @param values Array of parameter values (must match number of parameters)
    */
   async setAllParameterValues(values: number[]): Promise<void> {
-    this.client.send(
-      "/live/device/set/parameters/value",
-      this.trackId,
-      this.id,
-      ...values
+    sendEndpoint(
+      this.client,
+      "device/set/parameters/value",
+      [this.trackId, this.id, ...values],
+      this.kind
+    );
+  }
+
+  async getParameterMin(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameter/min",
+      [this.trackId, this.id, paramId],
+      options,
+      this.kind
     );
   }
 
-  async getParameterMin(paramId: number): Promise<number> {
-    const res = await this.client.query(
-      "/live/device/get/parameter/min",
-      this.trackId,
-      this.id,
-      paramId
+  async getParameterMax(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameter/max",
+      [this.trackId, this.id, paramId],
+      options,
+      this.kind
     );
-    return res.args[3] as number;
   }
 
-  async getParameterMax(paramId: number): Promise<number> {
-    const res = await this.client.query(
-      "/live/device/get/parameter/max",
-      this.trackId,
-      this.id,
-      paramId
+  async getParameterName(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "device/get/parameter/name",
+      [this.trackId, this.id, paramId],
+      options,
+      this.kind
     );
-    return res.args[3] as number;
   }
 
-  async getParameterName(paramId: number): Promise<string> {
-    const res = await this.client.query(
-      "/live/device/get/parameter/name",
-      this.trackId,
-      this.id,
-      paramId
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a parameter and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on(
+    event: "parameter",
+    paramId: number,
+    handler: (value: number) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `device/get/${event}/value`,
+      [this.trackSlot, this.id, paramId],
+      handler,
+      this.kind
     );
-    return res.args[3] as string;
+  }
+
+  /**
+   * Remove a handler added with `on()`
+   */
+  off(
+    event: "parameter",
+    paramId: number,
+    handler: (value: number) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `device/get/${event}/value`,
+      [this.trackSlot, this.id, paramId],
+      handler,
+      this.kind
+    );
+  }
+
+  /**
+   * A parameter value as an async iterator: the current value, then every
+   * change. The listen is removed when the loop exits.
+   */
+  watch(
+    event: "parameter",
+    paramId: number,
+    options?: WatchOptions<number>
+  ): AsyncIterableIterator<number> {
+    return iterate((cb) => this.on(event, paramId, cb), options);
   }
 
   // ============ Get full parameter info ============
 
-  async getParameter(paramId: number): Promise<DeviceParameter> {
+  async getParameter(
+    paramId: number,
+    options?: QueryOptions
+  ): Promise<DeviceParameter> {
     const [name, value, min, max] = await Promise.all([
-      this.getParameterName(paramId),
-      this.getParameterValue(paramId),
-      this.getParameterMin(paramId),
-      this.getParameterMax(paramId),
+      this.getParameterName(paramId, options),
+      this.getParameterValue(paramId, options),
+      this.getParameterMin(paramId, options),
+      this.getParameterMax(paramId, options),
     ]);
 
     return { id: paramId, name, value, min, max };
   }
 
-  async getAllParameters(): Promise<DeviceParameter[]> {
-    const numParams = await this.getNumParameters();
+  /**
+   * Get the parameter with a matching name, e.g. `param("Frequency")`
+   */
+  async param(
+    query: NameQuery,
+    options?: FindOptions
+  ): Promise<DeviceParameter> {
+    const names = await this.getParameterNames(options);
+    const paramId = findByName("parameter", names, query, options);
+    return this.getParameter(paramId, options);
+  }
+
+  async getAllParameters(options?: QueryOptions): Promise<DeviceParameter[]> {
+    const numParams = await this.getNumParameters(options);
     const params: DeviceParameter[] = [];
 
     for (let i = 0; i < numParams; i++) {
-      params.push(await this.getParameter(i));
+      params.push(await this.getParameter(i, options));
     }
 
     return params;
@@ -0,0 +1,159 @@
+/**
+ * Error classes thrown by AbleNode
+ */
+
+import type { OSCArgument } from "./osc.js";
+
+export interface AbletonErrorDetails {
+  /** OSC address of the request that failed */
+  address?: string;
+  /** Arguments of the request that failed */
+  args?: OSCArgument[];
+  /** Time between sending the request and the failure, in ms */
+  elapsed?: number;
+}
+
+/**
+ * Base class for all AbleNode errors
+ */
+export class AbletonError extends Error {
+  readonly address?: string;
+  readonly args?: OSCArgument[];
+  readonly elapsed?: number;
+
+  constructor(message: string, details: AbletonErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.address = details.address;
+    this.args = details.args;
+    this.elapsed = details.elapsed;
+  }
+}
+
+/**
+ * No reply arrived before the query timed out
+ */
+export class AbletonTimeoutError extends AbletonError {}
+
+/**
+ * The transport is not open
+ */
+export class NotConnectedError extends AbletonError {
+  constructor(details: AbletonErrorDetails = {}) {
+    super("Not connected", details);
+  }
+}
+
+/**
+ * AbletonOSC reported a failure on /live/error
+ */
+export class AbletonRemoteError extends AbletonError {
+  /** The message sent by AbletonOSC */
+  readonly remoteMessage: string;
+
+  constructor(remoteMessage: string, details: AbletonErrorDetails = {}) {
+    super(
+      details.address
+        ? `AbletonOSC error for ${details.address}: ${remoteMessage}`
+        : `AbletonOSC error: ${remoteMessage}`,
+      details
+    );
+    this.remoteMessage = remoteMessage;
+  }
+}
+
+/**
+ * A packet or reply did not have the expected shape
+ */
+export class ProtocolError extends AbletonError {}
+
+/**
+ * Outgoing middleware dropped a query without answering it
+ */
+export class MiddlewareDroppedError extends AbletonError {
+  constructor(details: AbletonErrorDetails = {}) {
+    super(`Query to ${details.address} was dropped by middleware`, details);
+  }
+}
+
+/**
+ * No track, scene, clip, device or parameter has a matching name
+ */
+export class NameNotFoundError extends AbletonError {
+  /** What was looked up, e.g. "track" */
+  readonly what: string;
+  /** The name or pattern that was looked up */
+  readonly query: string | RegExp;
+  /** The names that were searched */
+  readonly available: string[];
+
+  constructor(what: string, query: string | RegExp, available: string[]) {
+    super(`No ${what} named ${describeQuery(query)}`);
+    this.what = what;
+    this.query = query;
+    this.available = available;
+  }
+}
+
+/**
+ * More than one track, scene, clip, device or parameter has a matching name
+ */
+export class AmbiguousNameError extends AbletonError {
+  /** What was looked up, e.g. "track" */
+  readonly what: string;
+  /** The name or pattern that was looked up */
+  readonly query: string | RegExp;
+  /** Indices of the matches */
+  readonly matches: number[];
+  /** Names of the matches */
+  readonly names: string[];
+
+  constructor(
+    what: string,
+    query: string | RegExp,
+    matches: number[],
+    names: string[]
+  ) {
+    super(
+      `${matches.length} ${what}s match ${describeQuery(query)}: ` +
+        matches.map((i, n) => `"${names[n]}" at ${i}`).join(", ")
+    );
+    this.what = what;
+    this.query = query;
+    this.matches = matches;
+    this.names = names;
+  }
+}
+
+/**
+ * The track or scene behind a handle was deleted
+ */
+export class StaleHandleError extends AbletonError {
+  /** Whether the handle pointed at a track or a scene */
+  readonly collection: "track" | "scene";
+  /** The last index of the deleted target */
+  readonly lastIndex: number;
+
+  constructor(collection: "track" | "scene", lastIndex: number) {
+    super(`The ${collection} at index ${lastIndex} no longer exists`);
+    this.collection = collection;
+    this.lastIndex = lastIndex;
+  }
+}
+
+/**
+ * A Live object path could not be parsed or does not lead anywhere
+ */
+export class PathError extends AbletonError {
+  /** The path as given */
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(`${message} in path ${JSON.stringify(path)}`);
+    this.path = path;
+  }
+}
+
+function describeQuery(query: string | RegExp): string {
+  return typeof query === "string" ? `"${query}"` : String(query);
+}
@@ -0,0 +1,313 @@
+/**
+ * Stable track and scene handles
+ *
+ * Track, Scene, Clip, ClipSlot and Device objects hold a shared IndexSlot
+ * for their track and scene instead of a raw index. Tracks and scenes
+ * created, deleted or duplicated through Ableton move the slots right away;
+ * changes made in Live itself are picked up by refresh(), which finds each
+ * target again by name (or, for renamed targets, by position). AbletonOSC
+ * does not report such changes, so refresh() has to be called (or run on a
+ * timer).
+ */
+
+import { EventEmitter } from "node:events";
+import type { OSCClient, QueryOptions } from "./osc.js";
+import { StaleHandleError } from "./errors.js";
+import { requestEndpoint } from "./schema.js";
+
+/** What an IndexSlot points into */
+export type HandleCollection = "track" | "scene";
+
+const NAME_ENDPOINTS = {
+  track: "song/get/track_names",
+  scene: "song/get/scene_names",
+} as const;
+
+// A refresh that keeps racing local changes gives up after this many tries
+const MAX_REFRESH_ATTEMPTS = 3;
+
+let nextSlotId = 0;
+
+/**
+ * The current index of one track or scene, shared by every handle to it
+ */
+export class IndexSlot {
+  readonly collection: HandleCollection;
+  /**
+   * Identifies the target whatever its index: unique for slots that move,
+   * the index itself for slots that never do
+   */
+  readonly key: string;
+  private current: number;
+  private gone = false;
+
+  constructor(collection: HandleCollection, index: number, moves = false) {
+    this.collection = collection;
+    this.key = moves
+      ? `${collection}#${nextSlotId++}`
+      : `${collection}@${index}`;
+    this.current = index;
+  }
+
+  /**
+   * Current index. Throws StaleHandleError once the target was deleted.
+   */
+  get index(): number {
+    if (this.gone) {
+      throw new StaleHandleError(this.collection, this.current);
+    }
+    return this.current;
+  }
+
+  /** Whether the target was deleted */
+  get stale(): boolean {
+    return this.gone;
+  }
+
+  /** @internal */
+  moveTo(index: number): void {
+    this.current = index;
+  }
+
+  /** @internal */
+  invalidate(): void {
+    this.gone = true;
+  }
+}
+
+interface SlotList {
+  /** Slot of each index, where a handle exists */
+  slots: (IndexSlot | undefined)[];
+  /** Names at the last refresh, shifted by local changes; null if unknown */
+  names: (string | null)[] | null;
+  /** Bumped on every local change, to detect changes during a refresh */
+  version: number;
+}
+
+const registries: WeakMap<OSCClient, HandleRegistry> = new WeakMap();
+
+export interface HandleRegistryEvents {
+  /** Slots moved to other indices or became stale */
+  moved: [];
+}
+
+/**
+ * Index slots of the tracks and scenes of one client
+ */
+export class HandleRegistry extends EventEmitter<HandleRegistryEvents> {
+  private client: OSCClient;
+  private lists: Record<HandleCollection, SlotList> = {
+    track: { slots: [], names: null, version: 0 },
+    scene: { slots: [], names: null, version: 0 },
+  };
+
+  private constructor(client: OSCClient) {
+    super();
+    this.client = client;
+  }
+
+  /**
+   * The registry shared by all handles of `client`
+   */
+  static for(client: OSCClient): HandleRegistry {
+    let registry = registries.get(client);
+    if (!registry) {
+      registry = new HandleRegistry(client);
+      registries.set(client, registry);
+    }
+    return registry;
+  }
+
+  /**
+   * The slot for the track or scene currently at `index`
+   */
+  slot(collection: HandleCollection, index: number): IndexSlot {
+    // Negative indices never name a real target, so nothing moves them
+    if (index < 0) return new IndexSlot(collection, index);
+    const list = this.lists[collection];
+    let slot = list.slots[index];
+    if (!slot) {
+      slot = new IndexSlot(collection, index, true);
+      list.slots[index] = slot;
+    }
+    return slot;
+  }
+
+  /**
+   * A track or scene was inserted at `index` (-1 appends)
+   */
+  inserted(collection: HandleCollection, index: number): void {
+    const list = this.lists[collection];
+    list.version++;
+    if (index < 0) {
+      list.names?.push(null);
+      return;
+    }
+    list.names?.splice(index, 0, null);
+    if (index < list.slots.length) {
+      list.slots.splice(index, 0, undefined);
+      this.renumber(list);
+      this.emit("moved");
+    }
+  }
+
+  /**
+   * The track or scene at `index` was deleted
+   */
+  removed(collection: HandleCollection, index: number): void {
+    const list = this.lists[collection];
+    list.version++;
+    list.names?.splice(index, 1);
+    if (index < list.slots.length) {
+      const [slot] = list.slots.splice(index, 1);
+      slot?.invalidate();
+      this.renumber(list);
+      this.emit("moved");
+    }
+  }
+
+  /**
+   * Find every handled track and scene again by name, after changes made
+   * in Live. The first refresh only records the names.
+   */
+  async refresh(options?: QueryOptions): Promise<void> {
+    await Promise.all([
+      this.refreshList("track", options),
+      this.refreshList("scene", options),
+    ]);
+  }
+
+  private async refreshList(
+    collection: HandleCollection,
+    options?: QueryOptions
+  ): Promise<void> {
+    const list = this.lists[collection];
+    for (let attempt = 1; ; attempt++) {
+      const version = list.version;
+      const names = await requestEndpoint(
+        this.client,
+        NAME_ENDPOINTS[collection],
+        [],
+        options
+      );
+      // The names predate a local change that already moved the slots
+      if (list.version !== version && attempt < MAX_REFRESH_ATTEMPTS) {
+        continue;
+      }
+      if (this.resolve(list, names)) this.emit("moved");
+      return;
+    }
+  }
+
+  /**
+   * Move each slot to where its name is now, nearest its old index first.
+   * Slots whose name is unknown, or renamed while the count stayed the
+   * same, keep their position. A target renamed while tracks or scenes were
+   * also added or removed is looked for next to its nearest neighbour that
+   * kept its name, and taken if the name there is new. Slots left without a
+   * target become stale. Returns whether any slot moved or became stale.
+   */
+  private resolve(list: SlotList, names: string[]): boolean {
+    const previous = list.names;
+    const slots = list.slots;
+    const taken = new Set<number>();
+    const unnamed: [IndexSlot, number][] = [];
+    const renamed: [IndexSlot, number][] = [];
+    list.slots = [];
+    list.names = [...names];
+
+    let changed = false;
+    const place = (slot: IndexSlot, index: number) => {
+      taken.add(index);
+      list.slots[index] = slot;
+      changed ||= slot.index !== index;
+      slot.moveTo(index);
+    };
+    const drop = (slot: IndexSlot) => {
+      changed = true;
+      slot.invalidate();
+    };
+
+    slots.forEach((slot, i) => {
+      if (!slot) return;
+      const name = previous?.[i] ?? null;
+      if (name === null) {
+        unnamed.push([slot, i]);
+        return;
+      }
+      const index = nearestMatch(names, name, i, taken);
+      if (index >= 0) {
+        place(slot, index);
+      } else if (names.length === previous?.length) {
+        // Nothing was added or removed, so the target was renamed
+        unnamed.push([slot, i]);
+      } else {
+        renamed.push([slot, i]);
+      }
+    });
+
+    // Only names that did not exist before can belong to a renamed target
+    const known = new Set(previous);
+    for (const [slot, i] of renamed) {
+      const index = shiftedIndex(previous!, names, i);
+      if (
+        index >= 0 &&
+        index < names.length &&
+        !taken.has(index) &&
+        !known.has(names[index])
+      ) {
+        place(slot, index);
+      } else {
+        drop(slot);
+      }
+    }
+
+    for (const [slot, i] of unnamed) {
+      if (i < names.length && !taken.has(i)) {
+        place(slot, i);
+      } else {
+        drop(slot);
+      }
+    }
+    return changed;
+  }
+
+  private renumber(list: SlotList): void {
+    list.slots.forEach((slot, i) => slot?.moveTo(i));
+  }
+}
+
+/**
+ * Where the entry at `index` of `previous` is in `names`, judging by the
+ * nearest neighbour whose name is still there (the one before it on a tie);
+ * -1 if no neighbour kept its name
+ */
+function shiftedIndex(
+  previous: (string | null)[],
+  names: string[],
+  index: number
+): number {
+  for (let distance = 1; distance < previous.length; distance++) {
+    for (const neighbour of [index - distance, index + distance]) {
+      const name = previous[neighbour];
+      if (name === null || name === undefined) continue;
+      const found = nearestMatch(names, name, neighbour, new Set());
+      if (found >= 0) return found + index - neighbour;
+    }
+  }
+  return -1;
+}
+
+function nearestMatch(
+  names: string[],
+  name: string,
+  from: number,
+  taken: Set<number>
+): number {
+  let best = -1;
+  names.forEach((candidate, i) => {
+    if (candidate !== name || taken.has(i)) return;
+    if (best < 0 || Math.abs(i - from) < Math.abs(best - from)) best = i;
+  });
+  return best;
+}
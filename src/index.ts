@@ -49,9 +49,55 @@ export {
   Ableton,
   createMultiple,
   type AbletonOptions,
+  type CallArgs,
   type Logger,
 } from "./ableton.js";
 
+// Endpoint registry
+export {
+  ENDPOINTS,
+  callEndpoint,
+  requestEndpoint,
+  sendEndpoint,
+  encodeEndpointArgs,
+  checkEndpointArgs,
+  decodeReply,
+  routeEndpoint,
+  type Endpoint,
+  type QueryEndpoint,
+  type SendEndpoint,
+  type EndpointSpec,
+  type EndpointArgs,
+  type EndpointResult,
+  type ReplySpec,
+  type ReplyValue,
+  type ValueType,
+  type ValueOf,
+  type TrackKind,
+} from "./schema.js";
+
+// Errors
+export {
+  AbletonError,
+  AbletonTimeoutError,
+  NotConnectedError,
+  AbletonRemoteError,
+  ProtocolError,
+  MiddlewareDroppedError,
+  NameNotFoundError,
+  AmbiguousNameError,
+  StaleHandleError,
+  PathError,
+  type AbletonErrorDetails,
+} from "./errors.js";
+
+// Connection
+export {
+  ConnectionMonitor,
+  type ConnectionOptions,
+  type ConnectionState,
+} from "./connection.js";
+
 // Song
 export {
   Song,
@@ -59,6 +105,7 @@ export {
   MidiRecordingQuantization,
   RecordMode,
   type SongState,
+  type SongProperties,
   type CuePoint,
 } from "./song.js";
 
@@ -68,8 +115,30 @@ export {
   MonitoringState,
   type TrackState,
   type ArrangementClip,
+  type TrackEvent,
+  type TrackEvents,
+  type MixerTrack,
+  type MixerEvent,
+  type MixerEvents,
 } from "./track.js";
 
+// Group tracks
+export {
+  buildTrackTree,
+  walkTrackTree,
+  type TrackNode,
+  type TrackLeafNode,
+  type GroupTrackNode,
+} from "./track-tree.js";
+
+// Return and master tracks
+export {
+  ReturnTrack,
+  type ReturnTrackEvent,
+  type ReturnTrackEvents,
+} from "./return-track.js";
+export { MasterTrack } from "./master-track.js";
+
 // Clip
 export {
   Clip,
@@ -77,22 +146,161 @@ export {
   WarpMode,
   LaunchQuantization,
   type Note,
+  type ClipEvent,
+  type ClipEvents,
 } from "./clip.js";
 
 // ClipSlot
-export { ClipSlot } from "./clip-slot.js";
+export {
+  ClipSlot,
+  type ClipSlotEvent,
+  type ClipSlotEvents,
+} from "./clip-slot.js";
 
 // Device
 export { Device, DeviceType, type DeviceParameter } from "./device.js";
 
 // Scene
-export { Scene } from "./scene.js";
+export { Scene, type SceneEvent, type SceneEvents } from "./scene.js";
+
+// Name lookup
+export { findByName, type NameQuery, type FindOptions } from "./lookup.js";
+
+// Object paths
+export {
+  ResolvedPath,
+  parsePath,
+  resolvePath,
+  type PathChange,
+  type PathObject,
+  type PathSegment,
+  type PathSelector,
+  type PathTarget,
+} from "./path.js";
+
+// Stable handles
+export {
+  HandleRegistry,
+  IndexSlot,
+  type HandleCollection,
+  type HandleRegistryEvents,
+} from "./handles.js";
+
+// Send queue
+export {
+  SendScheduler,
+  type SendSchedulerOptions,
+  type SendQueueMetrics,
+} from "./scheduler.js";
+
+// Property listeners
+export {
+  ListenerRegistry,
+  iterate,
+  type ListenerCallback,
+  type ListenerRegistryEvents,
+  type ListenId,
+  type WatchOptions,
+} from "./listeners.js";
+
+// Address patterns
+export { compileOSCPattern, matchOSCAddress, isOSCPattern } from "./pattern.js";
+
+// Middleware
+export {
+  loggerMiddleware,
+  type OSCMiddleware,
+  type MiddlewareContext,
+} from "./middleware.js";
+
+// Capture and replay
+export {
+  PacketRecorder,
+  readCapture,
+  parseCapture,
+  serializeCaptureRecord,
+  replayCapture,
+  type CaptureRecord,
+  type CaptureDirection,
+  type PacketRecorderOptions,
+  type ReplayOptions,
+} from "./capture.js";
+
+// Transports
+export {
+  UDPTransport,
+  TCPTransport,
+  WebSocketTransport,
+  LoopbackTransport,
+  SlipDecoder,
+  createTransport,
+  slipEncode,
+  type OSCTransport,
+  type OSCTransportEvents,
+  type RemoteInfo,
+  type TransportType,
+  type TransportOptions,
+  type UDPTransportOptions,
+  type TCPTransportOptions,
+  type WebSocketTransportOptions,
+  type WebSocketLike,
+  type WebSocketConstructor,
+} from "./transport.js";
 
 // OSC (for advanced usage)
 export {
   OSCClient,
+  IMMEDIATELY,
+  DEFAULT_RETRY_POLICY,
+  isIdempotentAddress,
   buildOSCMessage,
+  buildOSCBundle,
+  buildOSCPacket,
   parseOSCMessage,
+  parseOSCPacket,
+  unpackOSCPacket,
+  isOSCBundle,
+  toTimeTag,
+  fromTimeTag,
+  toTypedArgument,
+  float,
   type OSCClientOptions,
+  type QueryOptions,
+  type RetryPolicy,
+  type SubscriptionHandler,
   type OSCMessage,
+  type OSCArgument,
+  type OSCTypedArgument,
+  type OSCValue,
+  type OSCColor,
+  type OSCMidiMessage,
+  type OSCBundle,
+  type OSCPacket,
+  type OSCTimeTag,
 } from "./osc.js";
+
+// Testing
+export {
+  MockAbletonServer,
+  createMockSongProps,
+  createMockTrack,
+  createMockReturnTrack,
+  createMockMasterTrack,
+  createMockClipSlot,
+  createMockClip,
+  createMockDevice,
+  createMockScene,
+  type MockAbletonServerOptions,
+  type MockAbletonServerEvents,
+  type MockFaults,
+  type MockLiveSet,
+  type MockProps,
+  type MockTrack,
+  type MockClipSlot,
+  type MockClip,
+  type MockDevice,
+  type MockParameter,
+  type MockScene,
+  type MockCuePoint,
+  type MockArrangementClip,
+} from "./mock-server.js";
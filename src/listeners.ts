@@ -0,0 +1,450 @@
+/**
+ * Reference-counted AbletonOSC property listeners
+ *
+ * AbletonOSC pushes `/live/<scope>/get/<prop>` whenever a property changes
+ * after `/live/<scope>/start_listen/<prop>`. One registry per client makes
+ * sure every property is listened to once, however many callbacks use it.
+ */
+
+import { EventEmitter } from "node:events";
+import { getCorrelationKey, type OSCClient, type OSCMessage } from "./osc.js";
+import {
+  decodeReply,
+  type EndpointResult,
+  routeArgs,
+  routeEndpoint,
+  type QueryEndpoint,
+  type TrackKind,
+} from "./schema.js";
+import { HandleRegistry, type IndexSlot } from "./handles.js";
+
+export type ListenerCallback<T = unknown> = (
+  value: T,
+  message: OSCMessage
+) => void;
+
+interface ListenEntry {
+  endpoint: QueryEndpoint;
+  kind: TrackKind;
+  /** Index arguments as given; slots follow their track or scene */
+  ids: readonly ListenId[];
+  /** The get address; start_listen and stop_listen are derived from it */
+  address: string;
+  /** Current index arguments on the wire */
+  args: number[];
+  /** Correlation key of the updates, for the current index arguments */
+  key: string;
+  callbacks: Set<ListenerCallback>;
+  /** Decode an update and pass it to the callbacks */
+  handle: (msg: OSCMessage) => void;
+  unsubscribe: () => void;
+  started: boolean;
+  last?: { value: unknown; message: OSCMessage };
+}
+
+/** An index argument: a fixed index or the slot of a track or scene */
+export type ListenId = number | IndexSlot;
+
+/** Endpoints that report events rather than state: repeats are not dropped */
+const EVENT_ENDPOINTS: ReadonlySet<string> = new Set(["song/get/beat"]);
+
+const registries: WeakMap<OSCClient, ListenerRegistry> = new WeakMap();
+
+export interface ListenerRegistryEvents {
+  /** Listens that had been started were sent again */
+  resubscribed: [count: number];
+}
+
+export class ListenerRegistry extends EventEmitter<ListenerRegistryEvents> {
+  private client: OSCClient;
+  // Keyed by endpoint and slot identity, so entries survive index changes
+  private entries: Map<string, ListenEntry> = new Map();
+
+  private constructor(client: OSCClient) {
+    super();
+    this.client = client;
+    // Starts listens added before the transport opened, and replays the
+    // others since a new socket may not receive the old updates
+    this.client.on("connect", () => {
+      this.resubscribe();
+    });
+    // Tracks and scenes moved: listen at their new indices instead
+    HandleRegistry.for(client).on("moved", () => {
+      this.follow();
+    });
+  }
+
+  /**
+   * The registry shared by everything using a client
+   */
+  static for(client: OSCClient): ListenerRegistry {
+    let registry = registries.get(client);
+    if (!registry) {
+      registry = new ListenerRegistry(client);
+      registries.set(client, registry);
+    }
+    return registry;
+  }
+
+  /**
+   * Number of properties currently listened to
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Listen to a property, e.g. `listen("track/get/mute", [0], cb)`. The
+   * callback gets the decoded value, first the current one and then on
+   * every change. Returns a function that removes the callback; the last
+   * one removed stops the listen. Track and device endpoints can be
+   * listened to on return and master tracks by passing their `kind`.
+   * Indices given as IndexSlots keep listening to the same track or scene
+   * when it moves, and the listen ends when it is deleted.
+   */
+  listen<K extends QueryEndpoint>(
+    endpoint: K,
+    ids: readonly ListenId[],
+    callback: ListenerCallback<EndpointResult<K>>,
+    kind: TrackKind = "track"
+  ): () => void {
+    const identity = identityOf(endpoint, ids, kind);
+
+    let entry = this.entries.get(identity);
+    if (!entry) {
+      const address = routeEndpoint(kind, endpoint);
+      const args = routeArgs(kind, ids.map(indexOf));
+      const created: ListenEntry = {
+        endpoint,
+        kind,
+        ids,
+        address,
+        args,
+        key: getCorrelationKey(address, args),
+        callbacks: new Set(),
+        handle: () => {},
+        unsubscribe: () => {},
+        started: false,
+      };
+      created.handle = (msg) => {
+        // Replies to plain queries use the same address; only report changes
+        if (
+          created.last &&
+          !EVENT_ENDPOINTS.has(endpoint) &&
+          sameArgs(
+            created.last.message.args.slice(created.args.length),
+            msg.args.slice(created.args.length)
+          )
+        ) {
+          return;
+        }
+        const value = decodeReply(endpoint, msg, kind);
+        created.last = { value, message: msg };
+        for (const cb of [...created.callbacks]) {
+          cb(value, msg);
+        }
+      };
+      created.unsubscribe = this.client.subscribe(address, (args, msg) => {
+        if (getCorrelationKey(msg.address, args) === created.key) {
+          created.handle(msg);
+        }
+      });
+      this.entries.set(identity, created);
+      entry = created;
+      this.start(entry);
+    } else if (entry.last && !EVENT_ENDPOINTS.has(endpoint)) {
+      // Already listening: AbletonOSC will not resend the current value
+      const last = entry.last;
+      queueMicrotask(() => {
+        if (entry!.callbacks.has(callback as ListenerCallback)) {
+          callback(last.value as EndpointResult<K>, last.message);
+        }
+      });
+    }
+
+    entry.callbacks.add(callback as ListenerCallback);
+    return () => this.remove(identity, callback as ListenerCallback);
+  }
+
+  /**
+   * Remove a callback added with `listen()`
+   */
+  unlisten<K extends QueryEndpoint>(
+    endpoint: K,
+    ids: readonly ListenId[],
+    callback: ListenerCallback<EndpointResult<K>>,
+    kind: TrackKind = "track"
+  ): void {
+    this.remove(identityOf(endpoint, ids, kind), callback as ListenerCallback);
+  }
+
+  /**
+   * Pass an update to the callbacks of a property as if Live had sent it.
+   * Does nothing when nothing listens to the property.
+   */
+  notify<K extends QueryEndpoint>(
+    endpoint: K,
+    ids: readonly ListenId[],
+    message: OSCMessage,
+    kind: TrackKind = "track"
+  ): void {
+    this.entries.get(identityOf(endpoint, ids, kind))?.handle(message);
+  }
+
+  private remove(identity: string, callback: ListenerCallback): void {
+    const entry = this.entries.get(identity);
+    if (!entry || !entry.callbacks.delete(callback)) {
+      return;
+    }
+    if (entry.callbacks.size > 0) {
+      return;
+    }
+    this.entries.delete(identity);
+    entry.unsubscribe();
+    this.stop(entry);
+  }
+
+  /**
+   * Send start_listen again for every property, e.g. after AbletonOSC was
+   * reloaded and forgot its listeners. AbletonOSC replaces an existing
+   * listener, so this is safe to call at any time. Returns the number of
+   * listens that had been started before and were replayed.
+   */
+  resubscribe(): number {
+    if (!this.client.isOpen) {
+      return 0;
+    }
+    let replayed = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.started) {
+        replayed++;
+      }
+      this.start(entry);
+    }
+    if (replayed > 0) {
+      this.emit("resubscribed", replayed);
+    }
+    return replayed;
+  }
+
+  /**
+   * Move listens whose track or scene changed index, and end those whose
+   * track or scene was deleted
+   */
+  private follow(): void {
+    for (const [identity, entry] of this.entries) {
+      const slots = entry.ids.filter((id) => typeof id !== "number");
+      if (slots.length === 0) continue;
+
+      if (slots.some((slot) => slot.stale)) {
+        this.entries.delete(identity);
+        entry.unsubscribe();
+        this.stop(entry);
+        continue;
+      }
+
+      const args = routeArgs(entry.kind, entry.ids.map(indexOf));
+      if (sameArgs(args, entry.args)) continue;
+      this.stop(entry);
+      entry.args = args;
+      entry.key = getCorrelationKey(entry.address, args);
+      this.start(entry);
+    }
+  }
+
+  private start(entry: ListenEntry): void {
+    if (!this.client.isOpen) {
+      return;
+    }
+    this.client.send(
+      entry.address.replace("/get/", "/start_listen/"),
+      ...entry.args
+    );
+    entry.started = true;
+  }
+
+  private stop(entry: ListenEntry): void {
+    if (entry.started && this.client.isOpen) {
+      this.client.send(
+        entry.address.replace("/get/", "/stop_listen/"),
+        ...entry.args
+      );
+    }
+    entry.started = false;
+  }
+}
+
+/**
+ * The index an index argument stands for now
+ */
+export function indexOf(id: ListenId): number {
+  return typeof id === "number" ? id : id.index;
+}
+
+function identityOf(
+  endpoint: string,
+  ids: readonly ListenId[],
+  kind: TrackKind
+): string {
+  const parts = ids.map((id) => (typeof id === "number" ? id : id.key));
+  return `${kind}:${endpoint}:${parts.join(",")}`;
+}
+
+function sameArgs(
+  a: readonly OSCMessage["args"][number][],
+  b: readonly OSCMessage["args"][number][]
+): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+export interface WatchOptions<T = unknown> {
+  /** Ends the iterator when aborted */
+  signal?: AbortSignal;
+  /**
+   * Yield at most one value per this many ms; the latest value of a burst
+   * is yielded when the interval ends
+   */
+  throttle?: number;
+  /**
+   * Skip values equal to the previous one (compared element-wise for
+   * arrays), or by a custom comparison
+   */
+  distinctUntilChanged?: boolean | ((previous: T, next: T) => boolean);
+  /** Values kept while the consumer is busy (default 100) */
+  bufferSize?: number;
+  /** Which values to drop when the buffer is full (default "oldest") */
+  overflow?: "oldest" | "newest";
+}
+
+/**
+ * Turn a callback subscription into an async iterator. Values that arrive
+ * while the consumer is busy are buffered up to `bufferSize`; the
+ * subscription is removed when the loop exits or the signal is aborted.
+ *
+ * @example
+ * ```typescript
+ * for await (const beat of iterate((cb) => song.addBeatListener(cb))) {
+ *   console.log(beat);
+ * }
+ * ```
+ */
+export function iterate<T>(
+  subscribe: (callback: (value: T) => void) => () => void,
+  options: WatchOptions<T> = {}
+): AsyncIterableIterator<T> {
+  const {
+    signal,
+    throttle = 0,
+    distinctUntilChanged = false,
+    bufferSize = 100,
+    overflow = "oldest",
+  } = options;
+  const isEqual =
+    typeof distinctUntilChanged === "function"
+      ? distinctUntilChanged
+      : distinctUntilChanged
+        ? sameValue
+        : null;
+
+  const queue: T[] = [];
+  let waiting: ((result: IteratorResult<T>) => void) | null = null;
+  let done = false;
+  let previous: { value: T } | null = null;
+  let lastEmit = -Infinity;
+  let pending: { value: T } | null = null;
+  let timer: NodeJS.Timeout | null = null;
+
+  const emit = (value: T) => {
+    // A skipped repeat does not start a new throttle interval
+    if (previous && isEqual?.(previous.value, value)) {
+      return;
+    }
+    lastEmit = Date.now();
+    previous = { value };
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve({ value, done: false });
+      return;
+    }
+    if (queue.length >= bufferSize) {
+      if (overflow === "newest") {
+        return;
+      }
+      queue.shift();
+    }
+    queue.push(value);
+  };
+
+  const flush = () => {
+    timer = null;
+    if (pending) {
+      const { value } = pending;
+      pending = null;
+      emit(value);
+    }
+  };
+
+  const unsubscribe = subscribe((value) => {
+    if (done) {
+      return;
+    }
+    const wait = lastEmit + throttle - Date.now();
+    if (wait <= 0 && !timer) {
+      emit(value);
+      return;
+    }
+    pending = { value };
+    timer ??= setTimeout(flush, Math.max(wait, 0));
+  });
+
+  const finish = (): IteratorResult<T> => {
+    if (!done) {
+      done = true;
+      queue.length = 0;
+      pending = null;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      unsubscribe();
+      signal?.removeEventListener("abort", onAbort);
+      waiting?.({ value: undefined, done: true });
+      waiting = null;
+    }
+    return { value: undefined, done: true };
+  };
+  const onAbort = () => finish();
+  if (signal?.aborted) {
+    finish();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return {
+    next() {
+      if (queue.length > 0) {
+        return Promise.resolve({ value: queue.shift()!, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => {
+        waiting = resolve;
+      });
+    },
+    return() {
+      return Promise.resolve(finish());
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return Object.is(a, b);
+}
@@ -0,0 +1,56 @@
+/**
+ * Name-based lookup for tracks, scenes, clips, devices and parameters
+ */
+
+import type { QueryOptions } from "./osc.js";
+import { AmbiguousNameError, NameNotFoundError } from "./errors.js";
+
+/** An exact name, or a pattern tested against each name */
+export type NameQuery = string | RegExp;
+
+export interface FindOptions extends QueryOptions {
+  /** Compare string queries ignoring case (default: false) */
+  ignoreCase?: boolean;
+}
+
+/**
+ * Index of the one name matching `query`. Throws NameNotFoundError when
+ * nothing matches and AmbiguousNameError when several do. Null entries
+ * (such as empty clip slots) never match.
+ */
+export function findByName(
+  what: string,
+  names: readonly (string | null)[],
+  query: NameQuery,
+  options: FindOptions = {}
+): number {
+  const test =
+    typeof query === "string"
+      ? options.ignoreCase
+        ? (name: string) => name.toLowerCase() === query.toLowerCase()
+        : (name: string) => name === query
+      : (name: string) => {
+          // Global and sticky patterns keep state between test() calls
+          query.lastIndex = 0;
+          return query.test(name);
+        };
+
+  const matches: number[] = [];
+  names.forEach((name, i) => {
+    if (name !== null && test(name)) matches.push(i);
+  });
+
+  if (matches.length === 0) {
+    const available = names.filter((name): name is string => name !== null);
+    throw new NameNotFoundError(what, query, available);
+  }
+  if (matches.length > 1) {
+    throw new AmbiguousNameError(
+      what,
+      query,
+      matches,
+      matches.map((i) => names[i] ?? "")
+    );
+  }
+  return matches[0];
+}
@@ -0,0 +1,182 @@
+/**
+ * MasterTrack class - represents the master track of the Live Set
+ */
+
+import { OSCClient, type QueryOptions } from "./osc.js";
+import { Device } from "./device.js";
+import { findByName, type FindOptions, type NameQuery } from "./lookup.js";
+import { requestEndpoint, sendEndpoint } from "./schema.js";
+import {
+  iterate,
+  ListenerRegistry,
+  type ListenerCallback,
+  type WatchOptions,
+} from "./listeners.js";
+import type { MixerEvent, MixerEvents, MixerTrack } from "./track.js";
+
+// The master track takes no index; routeArgs() leaves this placeholder off
+const MASTER = 0;
+
+export class MasterTrack implements MixerTrack {
+  private client: OSCClient;
+  readonly kind = "master_track";
+
+  constructor(client: OSCClient) {
+    this.client = client;
+  }
+
+  // ============ Getters ============
+
+  async getName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "track/get/name",
+      [MASTER],
+      options,
+      this.kind
+    );
+  }
+
+  async getVolume(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/volume",
+      [MASTER],
+      options,
+      this.kind
+    );
+  }
+
+  async getPanning(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/panning",
+      [MASTER],
+      options,
+      this.kind
+    );
+  }
+
+  /**
+   * Get the output meter level (for visualization)
+   */
+  async getOutputMeterLevel(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/output_meter_level",
+      [MASTER],
+      options,
+      this.kind
+    );
+  }
+
+  /**
+   * Get the cue (preview) volume
+   */
+  async getCueVolume(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "master_track/get/cue_volume",
+      [],
+      options
+    );
+  }
+
+  // ============ Setters ============
+
+  async setVolume(volume: number): Promise<void> {
+    sendEndpoint(this.client, "track/set/volume", [MASTER, volume], this.kind);
+  }
+
+  async setPanning(panning: number): Promise<void> {
+    sendEndpoint(
+      this.client,
+      "track/set/panning",
+      [MASTER, panning],
+      this.kind
+    );
+  }
+
+  async setCueVolume(volume: number): Promise<void> {
+    sendEndpoint(this.client, "master_track/set/cue_volume", [volume]);
+  }
+
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a property and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on<K extends MixerEvent>(
+    event: K,
+    handler: (value: MixerEvents[K]) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `track/get/${event as MixerEvent}`,
+      [MASTER],
+      handler as ListenerCallback,
+      this.kind
+    );
+  }
+
+  /**
+   * Remove a handler added with `on()`
+   */
+  off<K extends MixerEvent>(
+    event: K,
+    handler: (value: MixerEvents[K]) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `track/get/${event as MixerEvent}`,
+      [MASTER],
+      handler as ListenerCallback,
+      this.kind
+    );
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   */
+  watch<K extends MixerEvent>(
+    event: K,
+    options?: WatchOptions<MixerEvents[K]>
+  ): AsyncIterableIterator<MixerEvents[K]> {
+    return iterate((cb) => this.on(event, cb), options);
+  }
+
+  // ============ Devices ============
+
+  getDevice(deviceId: number): Device {
+    return new Device(this.client, MASTER, deviceId, this.kind);
+  }
+
+  async getDeviceNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/devices/name",
+      [MASTER],
+      options,
+      this.kind
+    );
+  }
+
+  async getNumDevices(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/num_devices",
+      [MASTER],
+      options,
+      this.kind
+    );
+  }
+
+  /**
+   * Get the device with a matching name
+   */
+  async findDevice(query: NameQuery, options?: FindOptions): Promise<Device> {
+    const names = await this.getDeviceNames(options);
+    return this.getDevice(findByName("device", names, query, options));
+  }
+}
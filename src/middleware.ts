@@ -0,0 +1,53 @@
+/**
+ * Middleware for outgoing and incoming OSC messages
+ */
+
+import type { Logger } from "./ableton.js";
+import type { OSCMessage } from "./osc.js";
+import type { RemoteInfo } from "./transport.js";
+
+export interface MiddlewareContext {
+  direction: "out" | "in";
+  /** The message; mutate it or assign a new one to rewrite it */
+  message: OSCMessage;
+  /** Sender of an incoming message, when the transport reports one */
+  remote?: RemoteInfo;
+  /** Whether an outgoing message is a query awaiting a reply */
+  query: boolean;
+  /**
+   * Answer an outgoing message without sending it; the reply goes through
+   * the incoming pipeline and resolves a matching query
+   */
+  respond(reply: OSCMessage): void;
+}
+
+/**
+ * Runs for every message; call `next()` to pass it on, or return without
+ * calling it to drop the message. A dropped query that was not answered
+ * with `respond()` fails with MiddlewareDroppedError. Throwing fails the
+ * send or query.
+ *
+ * @example
+ * ```typescript
+ * // Dry run: nothing reaches Live, queries get a canned reply
+ * client.use((ctx, next) => {
+ *   if (ctx.direction === "in") return next();
+ *   const { address, args } = ctx.message;
+ *   if (ctx.query) ctx.respond({ address, args: [...args, 0] });
+ * });
+ * ```
+ */
+export type OSCMiddleware = (ctx: MiddlewareContext, next: () => void) => void;
+
+/**
+ * Log every message at debug level
+ */
+export function loggerMiddleware(logger: Logger): OSCMiddleware {
+  return (ctx, next) => {
+    logger.debug?.(
+      ctx.direction === "out" ? "[AbleNode] Sent:" : "[AbleNode] Received:",
+      ctx.message
+    );
+    next();
+  };
+}
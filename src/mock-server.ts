@@ -0,0 +1,1382 @@
+/**
+ * MockAbletonServer - an in-process stand-in for Live + AbletonOSC
+ *
+ * Answers every address used by this library from a mutable model of a Live
+ * Set, so code built on Ableton can be tested without a running Live.
+ */
+
+import dgram from "node:dgram";
+import { EventEmitter } from "node:events";
+import {
+  buildOSCMessage,
+  getCorrelationKey,
+  parseOSCPacket,
+  unpackOSCPacket,
+  type OSCArgument,
+  type OSCMessage,
+  type OSCValue,
+} from "./osc.js";
+import {
+  LoopbackTransport,
+  type OSCTransport,
+  type RemoteInfo,
+} from "./transport.js";
+import type { Note } from "./clip.js";
+
+export type MockProps = Record<string, OSCValue>;
+
+export interface MockClip {
+  props: MockProps;
+  notes: Note[];
+}
+
+export interface MockClipSlot {
+  props: MockProps;
+  clip: MockClip | null;
+}
+
+export interface MockParameter {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+  isQuantized: boolean;
+}
+
+export interface MockDevice {
+  props: MockProps;
+  parameters: MockParameter[];
+}
+
+export interface MockArrangementClip {
+  startTime: number;
+  endTime: number;
+  name: string;
+  color: number;
+}
+
+export interface MockTrack {
+  props: MockProps;
+  sends: number[];
+  clipSlots: MockClipSlot[];
+  devices: MockDevice[];
+  arrangementClips: MockArrangementClip[];
+}
+
+export interface MockScene {
+  props: MockProps;
+}
+
+export interface MockCuePoint {
+  name: string;
+  time: number;
+}
+
+/**
+ * The model served by MockAbletonServer; tests may read and modify it freely
+ */
+export interface MockLiveSet {
+  version: [number, number];
+  song: MockProps;
+  view: MockProps;
+  tracks: MockTrack[];
+  returnTracks: MockTrack[];
+  masterTrack: MockTrack;
+  scenes: MockScene[];
+  cuePoints: MockCuePoint[];
+}
+
+export interface MockFaults {
+  /** Probability (0-1) that an incoming packet is silently dropped */
+  dropRate?: number;
+  /** Delay before replying in ms, fixed or a [min, max] range */
+  delay?: number | [number, number];
+  /** Addresses that always fail on /live/error, with the error message */
+  errors?: Record<string, string>;
+}
+
+export interface MockAbletonServerOptions {
+  /** UDP port to listen on (default: 11000); unused with `transport` */
+  port?: number;
+  /** Serve on this transport (e.g. a LoopbackTransport end) instead of UDP */
+  transport?: OSCTransport;
+  /** Initial model; defaults to an empty set with default song properties */
+  set?: Partial<MockLiveSet>;
+  /** Fault injection settings */
+  faults?: MockFaults;
+}
+
+export interface MockAbletonServerEvents {
+  message: [OSCMessage];
+}
+
+type Scope =
+  | "song"
+  | "track"
+  | "return_track"
+  | "master_track"
+  | "clip"
+  | "clip_slot"
+  | "device"
+  | "return_track/device"
+  | "master_track/device"
+  | "scene";
+
+// Number of index arguments each scope takes
+const SCOPE_INDEX_COUNT: Record<Scope, number> = {
+  song: 0,
+  track: 1,
+  return_track: 1,
+  master_track: 0,
+  scene: 1,
+  clip: 2,
+  clip_slot: 2,
+  device: 2,
+  "return_track/device": 2,
+  "master_track/device": 1,
+};
+
+/**
+ * Error raised while handling a message; answered on /live/error
+ */
+class MockError extends Error {}
+
+export function createMockSongProps(): MockProps {
+  return {
+    tempo: 120,
+    is_playing: false,
+    song_length: 0,
+    current_song_time: 0,
+    metronome: false,
+    arrangement_overdub: false,
+    back_to_arranger: false,
+    can_redo: false,
+    can_undo: false,
+    clip_trigger_quantization: 4,
+    groove_amount: 1,
+    loop: false,
+    loop_length: 16,
+    loop_start: 0,
+    midi_recording_quantization: 0,
+    nudge_down: false,
+    nudge_up: false,
+    punch_in: false,
+    punch_out: false,
+    record_mode: 0,
+    root_note: 0,
+    scale_name: "Major",
+    session_record: false,
+    session_record_status: 0,
+    signature_numerator: 4,
+    signature_denominator: 4,
+  };
+}
+
+export function createMockTrack(
+  props: MockProps = {},
+  numScenes = 0
+): MockTrack {
+  const isAudio = props.has_audio_input === true;
+  return {
+    props: {
+      name: "Track",
+      color: 0,
+      color_index: 0,
+      mute: false,
+      solo: false,
+      arm: false,
+      volume: 0.85,
+      panning: 0,
+      output_meter_level: 0,
+      input_routing_channel: "All Channels",
+      input_routing_type: isAudio ? "Ext. In" : "All Ins",
+      output_routing_channel: "",
+      output_routing_type: "Master",
+      available_input_routing_channels: ["All Channels"],
+      available_input_routing_types: ["All Ins", "Ext. In"],
+      available_output_routing_channels: [""],
+      available_output_routing_types: ["Master"],
+      current_monitoring_state: 1,
+      fold_state: false,
+      has_audio_input: isAudio,
+      has_audio_output: true,
+      has_midi_input: !isAudio,
+      has_midi_output: false,
+      is_foldable: false,
+      group_track: -1,
+      is_visible: true,
+      fired_slot_index: -1,
+      playing_slot_index: -1,
+      ...props,
+      // A track is grouped exactly when it has a group track
+      is_grouped: props.is_grouped ?? Number(props.group_track ?? -1) >= 0,
+    },
+    sends: [],
+    clipSlots: Array.from({ length: numScenes }, createMockClipSlot),
+    devices: [],
+    arrangementClips: [],
+  };
+}
+
+export function createMockReturnTrack(props: MockProps = {}): MockTrack {
+  return createMockTrack({ name: "A-Return", ...props });
+}
+
+export function createMockMasterTrack(props: MockProps = {}): MockTrack {
+  return createMockTrack({ name: "Master", cue_volume: 0.85, ...props });
+}
+
+export function createMockClipSlot(): MockClipSlot {
+  return {
+    props: {
+      has_stop_button: true,
+      is_playing: false,
+      is_recording: false,
+      is_triggered: false,
+    },
+    clip: null,
+  };
+}
+
+export function createMockClip(props: MockProps = {}, notes: Note[] = []) {
+  const clip: MockClip = {
+    props: {
+      name: "Clip",
+      color: 0,
+      color_index: 0,
+      length: 4,
+      gain: 1,
+      is_playing: false,
+      is_recording: false,
+      is_audio_clip: false,
+      is_midi_clip: true,
+      playing_position: 0,
+      loop_start: 0,
+      loop_end: 4,
+      launch_mode: 0,
+      warp_mode: 0,
+      muted: false,
+      file_path: "",
+      sample_length: 0,
+      start_time: 0,
+      is_overdubbing: false,
+      will_record_on_start: false,
+      warping: false,
+      has_groove: false,
+      legato: false,
+      position: 0,
+      velocity_amount: 0,
+      start_marker: 0,
+      end_marker: 4,
+      ram_mode: false,
+      launch_quantization: 0,
+      looping: true,
+      pitch_coarse: 0,
+      pitch_fine: 0,
+      ...props,
+    },
+    notes: [...notes],
+  };
+  return clip;
+}
+
+export function createMockDevice(
+  props: MockProps = {},
+  parameters: Partial<MockParameter>[] = []
+): MockDevice {
+  return {
+    props: {
+      name: "Device",
+      class_name: "Device",
+      is_active: true,
+      type: 1,
+      ...props,
+    },
+    parameters: [
+      { name: "Device On", value: 1, min: 0, max: 1, isQuantized: true },
+      ...parameters.map((p, i) => ({
+        name: `Parameter ${i + 1}`,
+        value: 0,
+        min: 0,
+        max: 1,
+        isQuantized: false,
+        ...p,
+      })),
+    ],
+  };
+}
+
+export function createMockScene(props: MockProps = {}): MockScene {
+  return {
+    props: {
+      name: "",
+      color: 0,
+      color_index: 0,
+      tempo: -1,
+      tempo_enabled: false,
+      time_signature_numerator: -1,
+      time_signature_denominator: -1,
+      time_signature_enabled: false,
+      is_triggered: false,
+      ...props,
+    },
+  };
+}
+
+/**
+ * In-memory mock of AbletonOSC
+ *
+ * @example
+ * ```typescript
+ * const { server, transport } = await MockAbletonServer.loopback();
+ * server.addTrack({ name: "Bass" });
+ *
+ * const ableton = new Ableton({ transport });
+ * await ableton.connect();
+ * await ableton.getTrack(0).setMute(true);
+ * server.set.tracks[0].props.mute; // true
+ * ```
+ */
+export class MockAbletonServer extends EventEmitter<MockAbletonServerEvents> {
+  readonly set: MockLiveSet;
+  faults: MockFaults;
+  /** Every message received, in order (dropped packets excluded) */
+  readonly received: OSCMessage[] = [];
+  private port: number;
+  private transport?: OSCTransport;
+  private socket: dgram.Socket | null = null;
+  private remotes: Map<string, RemoteInfo> = new Map();
+  private listens: Set<string> = new Set();
+  private oneShotErrors: Map<string, string[]> = new Map();
+
+  constructor(options: MockAbletonServerOptions = {}) {
+    super();
+    this.port = options.port ?? 11000;
+    this.transport = options.transport;
+    this.faults = options.faults ?? {};
+    this.set = {
+      version: [12, 0],
+      song: createMockSongProps(),
+      view: { selected_track: 0, selected_scene: 0 },
+      tracks: [],
+      returnTracks: [],
+      masterTrack: createMockMasterTrack(),
+      scenes: [],
+      cuePoints: [],
+      ...options.set,
+    };
+  }
+
+  /**
+   * Start a server on an in-memory transport; connect an Ableton or
+   * OSCClient to the returned client-side transport
+   */
+  static async loopback(
+    options: Omit<MockAbletonServerOptions, "transport" | "port"> = {}
+  ): Promise<{ server: MockAbletonServer; transport: LoopbackTransport }> {
+    const [clientEnd, serverEnd] = LoopbackTransport.pair();
+    const server = new MockAbletonServer({ ...options, transport: serverEnd });
+    await server.start();
+    return { server, transport: clientEnd };
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    if (this.transport) {
+      this.transport.on("packet", (data, remote) => this.receive(data, remote));
+      await this.transport.open();
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket("udp4");
+      socket.once("error", reject);
+      socket.on("message", (data, rinfo) =>
+        this.receive(data, { address: rinfo.address, port: rinfo.port })
+      );
+      socket.bind(this.port, () => {
+        socket.off("error", reject);
+        this.socket = socket;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  stop(): void {
+    this.transport?.close();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  // ============ Model helpers ============
+
+  /**
+   * Append a track with a clip slot for every scene; returns its index
+   */
+  addTrack(props: MockProps = {}): number {
+    this.set.tracks.push(createMockTrack(props, this.set.scenes.length));
+    return this.set.tracks.length - 1;
+  }
+
+  /**
+   * Append a return track; returns its index
+   */
+  addReturnTrack(props: MockProps = {}): number {
+    this.set.returnTracks.push(createMockReturnTrack(props));
+    return this.set.returnTracks.length - 1;
+  }
+
+  /**
+   * Append a scene and a clip slot on every track; returns its index
+   */
+  addScene(props: MockProps = {}): number {
+    this.set.scenes.push(createMockScene(props));
+    for (const track of this.set.tracks) {
+      track.clipSlots.push(createMockClipSlot());
+    }
+    return this.set.scenes.length - 1;
+  }
+
+  /**
+   * Put a clip into a slot
+   */
+  addClip(
+    trackId: number,
+    slotId: number,
+    props: MockProps = {},
+    notes: Note[] = []
+  ): MockClip {
+    const clip = createMockClip(props, notes);
+    this.getClipSlot(trackId, slotId).clip = clip;
+    return clip;
+  }
+
+  /**
+   * Append a device to a track, given by index or as a track of the model
+   * such as `server.set.masterTrack`; returns its index
+   */
+  addDevice(
+    trackId: number | MockTrack,
+    props: MockProps = {},
+    parameters: Partial<MockParameter>[] = []
+  ): number {
+    const track =
+      typeof trackId === "number" ? this.getTrack(trackId) : trackId;
+    track.devices.push(createMockDevice(props, parameters));
+    return track.devices.length - 1;
+  }
+
+  // ============ Fault injection ============
+
+  /**
+   * Make the next message to `address` fail on /live/error
+   */
+  failNext(address: string, message = "Mock failure"): void {
+    const queue = this.oneShotErrors.get(address) ?? [];
+    queue.push(message);
+    this.oneShotErrors.set(address, queue);
+  }
+
+  // ============ Driving the model ============
+
+  /**
+   * Handle a message as if a client had sent it (no fault injection);
+   * replies and listener updates go to every known client
+   */
+  apply(address: string, ...args: OSCArgument[]): void {
+    for (const reply of this.handle({ address, args })) {
+      this.push(reply.address, ...reply.args);
+    }
+  }
+
+  /**
+   * Send an unsolicited message to every known client
+   */
+  push(address: string, ...args: OSCArgument[]): void {
+    const data = buildOSCMessage(address, ...args);
+    if (this.transport) {
+      if (this.transport.isOpen) {
+        this.transport.send(data);
+      }
+      return;
+    }
+    for (const remote of this.remotes.values()) {
+      this.socket?.send(data, remote.port, remote.address);
+    }
+  }
+
+  /**
+   * Simulate AbletonOSC reloading: forget every listen and announce
+   * `/live/startup` like the remote script does
+   */
+  restart(): void {
+    this.listens.clear();
+    this.push("/live/startup");
+  }
+
+  /**
+   * Whether a client currently listens to a property, e.g.
+   * `isListening("/live/track/get/mute", 0)`
+   */
+  isListening(getAddress: string, ...ids: number[]): boolean {
+    return this.listens.has(getCorrelationKey(getAddress, ids));
+  }
+
+  // ============ Message handling ============
+
+  private receive(data: Buffer, remote?: RemoteInfo): void {
+    if (remote) {
+      this.remotes.set(`${remote.address}:${remote.port}`, remote);
+    }
+
+    if (this.faults.dropRate && Math.random() < this.faults.dropRate) {
+      return;
+    }
+
+    let messages: OSCMessage[];
+    try {
+      messages = unpackOSCPacket(parseOSCPacket(data));
+    } catch {
+      return;
+    }
+
+    for (const msg of messages) {
+      this.received.push(msg);
+      this.emit("message", msg);
+
+      const replies = this.injectedError(msg.address) ?? this.handle(msg);
+      if (replies.length > 0) {
+        this.reply(replies, remote);
+      }
+    }
+  }
+
+  private injectedError(address: string): OSCMessage[] | undefined {
+    const queue = this.oneShotErrors.get(address);
+    const message = queue?.shift() ?? this.faults.errors?.[address];
+    if (queue?.length === 0) {
+      this.oneShotErrors.delete(address);
+    }
+    if (message === undefined) {
+      return undefined;
+    }
+    return [{ address: "/live/error", args: [`${address}: ${message}`] }];
+  }
+
+  private reply(replies: OSCMessage[], remote?: RemoteInfo): void {
+    const send = () => {
+      for (const msg of replies) {
+        const data = buildOSCMessage(msg.address, ...msg.args);
+        if (this.transport) {
+          if (this.transport.isOpen) {
+            this.transport.send(data);
+          }
+        } else if (remote) {
+          this.socket?.send(data, remote.port, remote.address);
+        }
+      }
+    };
+
+    const { delay } = this.faults;
+    const ms = Array.isArray(delay)
+      ? delay[0] + Math.random() * (delay[1] - delay[0])
+      : (delay ?? 0);
+    if (ms > 0) {
+      setTimeout(send, ms);
+    } else {
+      send();
+    }
+  }
+
+  /**
+   * Handle one message and return the replies to send
+   */
+  private handle(msg: OSCMessage): OSCMessage[] {
+    try {
+      return this.dispatch(msg.address, msg.args);
+    } catch (err) {
+      const text = err instanceof Error ? err.message : String(err);
+      return [
+        {
+          address: "/live/error",
+          args: [`Error handling message ${msg.address}: ${text}`],
+        },
+      ];
+    }
+  }
+
+  private dispatch(address: string, args: OSCArgument[]): OSCMessage[] {
+    if (address === "/live/test") {
+      return [{ address, args: ["ok"] }];
+    }
+    if (address === "/live/application/get/version") {
+      return [{ address, args: [...this.set.version] }];
+    }
+    if (address === "/live/api/show_message") {
+      return [];
+    }
+
+    const parts = address.split("/").slice(2);
+    let [scope, verb, ...rest] = parts;
+    // Devices on return and master tracks: /live/return_track/device/...
+    if (
+      (scope === "return_track" || scope === "master_track") &&
+      verb === "device"
+    ) {
+      scope = `${scope}/device`;
+      [verb, ...rest] = rest;
+    }
+    const prop = rest.join("/");
+
+    if (scope === "view") {
+      return this.handleView(address, verb, prop, args);
+    }
+    if (!(scope in SCOPE_INDEX_COUNT)) {
+      throw new MockError(`Unknown OSC address: ${address}`);
+    }
+
+    const s = scope as Scope;
+    const ids = args.slice(0, SCOPE_INDEX_COUNT[s]).map(Number);
+    const params = args.slice(SCOPE_INDEX_COUNT[s]);
+
+    switch (verb) {
+      case "get":
+        return [
+          {
+            address,
+            args: [
+              ...this.echoIds(address, ids, params),
+              ...this.get(s, prop, ids, params),
+            ],
+          },
+        ];
+      case "set":
+        this.setProp(s, prop, ids, params);
+        return this.notify(s, prop, ids, params);
+      case "start_listen":
+        return this.startListen(s, prop, ids, params);
+      case "stop_listen":
+        this.listens.delete(this.listenKey(s, prop, ids, params));
+        return [];
+      default:
+        this.action(s, [verb, ...rest].join("/"), ids, params);
+        return [];
+    }
+  }
+
+  /**
+   * Index arguments echoed in a reply, including per-parameter and per-send ids
+   */
+  private echoIds(
+    address: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): OSCArgument[] {
+    const extra =
+      address.includes("device/get/parameter/") ||
+      address === "/live/track/get/send"
+        ? params.slice(0, 1)
+        : [];
+    return [...ids, ...extra];
+  }
+
+  private handleView(
+    address: string,
+    verb: string,
+    prop: string,
+    args: OSCArgument[]
+  ): OSCMessage[] {
+    if (!(prop in this.set.view)) {
+      throw new MockError(`Unknown OSC address: ${address}`);
+    }
+    if (verb === "get") {
+      return [{ address, args: [this.set.view[prop]] }];
+    }
+    if (verb === "set") {
+      this.set.view[prop] = Number(args[0]);
+      return [];
+    }
+    throw new MockError(`Unknown OSC address: ${address}`);
+  }
+
+  // ============ Getters ============
+
+  private get(
+    scope: Scope,
+    prop: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): OSCArgument[] {
+    switch (scope) {
+      case "song":
+        return this.getSong(prop);
+      case "track":
+      case "return_track":
+      case "master_track":
+        return this.getTrackProp(this.trackOf(scope, ids), prop, params);
+      case "clip":
+        return this.getClipProp(ids[0], ids[1], prop, params);
+      case "clip_slot": {
+        const slot = this.getClipSlot(ids[0], ids[1]);
+        if (prop === "has_clip") return [slot.clip !== null];
+        return [readProp(slot.props, prop)];
+      }
+      case "device":
+      case "return_track/device":
+      case "master_track/device":
+        return this.getDeviceProp(this.deviceOf(scope, ids), prop, params);
+      case "scene": {
+        const scene = this.getScene(ids[0]);
+        if (prop === "is_empty") {
+          return [
+            this.set.tracks.every((t) => t.clipSlots[ids[0]]?.clip == null),
+          ];
+        }
+        return [readProp(scene.props, prop)];
+      }
+    }
+  }
+
+  private getSong(prop: string): OSCArgument[] {
+    switch (prop) {
+      case "track_names":
+        return this.set.tracks.map((t) => t.props.name);
+      case "scene_names":
+        return this.set.scenes.map((s) => s.props.name);
+      case "num_tracks":
+        return [this.set.tracks.length];
+      case "return_tracks":
+        return this.set.returnTracks.map((t) => t.props.name);
+      case "num_scenes":
+        return [this.set.scenes.length];
+      case "cue_points":
+        return this.set.cuePoints.flatMap((c, i) => [i, c.name, c.time]);
+      default:
+        return [readProp(this.set.song, prop)];
+    }
+  }
+
+  private getTrackProp(
+    track: MockTrack,
+    prop: string,
+    params: OSCArgument[]
+  ): OSCArgument[] {
+    switch (prop) {
+      case "clips/name":
+        return track.clipSlots.map((s) => s.clip?.props.name ?? null);
+      case "devices/name":
+        return track.devices.map((d) => d.props.name);
+      case "num_devices":
+        return [track.devices.length];
+      case "send":
+        return [track.sends[Number(params[0])] ?? 0];
+      case "arrangement_clips":
+        return track.arrangementClips.flatMap((c) => [
+          c.startTime,
+          c.endTime,
+          c.name,
+          c.color,
+        ]);
+    }
+    const value = readProp(track.props, prop);
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private getClipProp(
+    trackId: number,
+    slotId: number,
+    prop: string,
+    params: OSCArgument[]
+  ): OSCArgument[] {
+    const clip = this.getClip(trackId, slotId);
+    if (prop !== "notes") {
+      return [readProp(clip.props, prop)];
+    }
+
+    let notes = clip.notes;
+    if (params.length >= 4) {
+      const [pitch, pitchSpan, time, timeSpan] = params.map(Number);
+      notes = notes.filter(
+        (n) =>
+          n.pitch >= pitch &&
+          n.pitch < pitch + pitchSpan &&
+          n.startTime >= time &&
+          n.startTime < time + timeSpan
+      );
+    }
+    return notes.flatMap((n) => [
+      n.pitch,
+      n.startTime,
+      n.duration,
+      n.velocity,
+      n.mute,
+    ]);
+  }
+
+  private getDeviceProp(
+    device: MockDevice,
+    prop: string,
+    params: OSCArgument[]
+  ): OSCArgument[] {
+    if (prop.startsWith("parameters/")) {
+      const field = prop.slice("parameters/".length);
+      return device.parameters.map((p) => parameterField(p, field));
+    }
+    if (prop.startsWith("parameter/")) {
+      const param = this.getParameter(device, Number(params[0]));
+      return [parameterField(param, prop.slice("parameter/".length))];
+    }
+    if (prop === "num_parameters") {
+      return [device.parameters.length];
+    }
+    return [readProp(device.props, prop)];
+  }
+
+  // ============ Setters ============
+
+  private setProp(
+    scope: Scope,
+    prop: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): void {
+    const value = params[0] as OSCValue;
+
+    switch (scope) {
+      case "song":
+        writeProp(this.set.song, prop, value);
+        return;
+      case "track":
+      case "return_track":
+      case "master_track": {
+        const track = this.trackOf(scope, ids);
+        if (prop === "send") {
+          track.sends[Number(params[0])] = Number(params[1]);
+          return;
+        }
+        writeProp(track.props, prop, value);
+        return;
+      }
+      case "clip":
+        writeProp(this.getClip(ids[0], ids[1]).props, prop, value);
+        return;
+      case "clip_slot":
+        writeProp(this.getClipSlot(ids[0], ids[1]).props, prop, value);
+        return;
+      case "scene":
+        writeProp(this.getScene(ids[0]).props, prop, value);
+        return;
+      case "device":
+      case "return_track/device":
+      case "master_track/device": {
+        const device = this.deviceOf(scope, ids);
+        if (prop === "parameter/value") {
+          const param = this.getParameter(device, Number(params[0]));
+          param.value = clamp(Number(params[1]), param.min, param.max);
+        } else if (prop === "parameters/value") {
+          params.forEach((v, i) => {
+            const param = this.getParameter(device, i);
+            param.value = clamp(Number(v), param.min, param.max);
+          });
+        } else {
+          writeProp(device.props, prop, value);
+        }
+        return;
+      }
+    }
+  }
+
+  // ============ Listeners ============
+
+  private listenKey(
+    scope: Scope,
+    prop: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): string {
+    const getAddress = `/live/${scope}/get/${prop}`;
+    return getCorrelationKey(getAddress, [
+      ...this.echoIds(getAddress, ids, params),
+    ]);
+  }
+
+  private startListen(
+    scope: Scope,
+    prop: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): OSCMessage[] {
+    this.listens.add(this.listenKey(scope, prop, ids, params));
+    // Like AbletonOSC, report the current value right away (beat has none)
+    if (scope === "song" && prop === "beat") {
+      return [];
+    }
+    return this.dispatch(`/live/${scope}/get/${prop}`, [...ids, ...params]);
+  }
+
+  /**
+   * Updates for listeners of a property that was just set
+   */
+  private notify(
+    scope: Scope,
+    prop: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): OSCMessage[] {
+    // Listen keys for parameters are per parameter; sets carry the id first
+    const idParams =
+      scope.endsWith("device") && prop === "parameter/value"
+        ? params.slice(0, 1)
+        : [];
+    if (!this.listens.has(this.listenKey(scope, prop, ids, idParams))) {
+      return [];
+    }
+    return this.dispatch(`/live/${scope}/get/${prop}`, [...ids, ...idParams]);
+  }
+
+  /**
+   * Set a property and report it to listeners, as Live would on a change
+   */
+  private change(
+    scope: Scope,
+    ids: number[],
+    props: MockProps,
+    prop: string,
+    value: OSCValue
+  ): void {
+    if (props[prop] === value) {
+      return;
+    }
+    props[prop] = value;
+    for (const reply of this.notify(scope, prop, ids, [])) {
+      this.push(reply.address, ...reply.args);
+    }
+  }
+
+  // ============ Actions ============
+
+  private action(
+    scope: Scope,
+    name: string,
+    ids: number[],
+    params: OSCArgument[]
+  ): void {
+    const handler = `${scope}/${name}`;
+    switch (handler) {
+      // Song
+      case "song/start_playing":
+      case "song/continue_playing":
+        this.change("song", [], this.set.song, "is_playing", true);
+        return;
+      case "song/stop_playing":
+        this.change("song", [], this.set.song, "is_playing", false);
+        return;
+      case "song/stop_all_clips":
+        this.set.tracks.forEach((_, t) => this.stopTrack(t));
+        return;
+      case "song/create_midi_track":
+      case "song/create_audio_track": {
+        const index = Number(params[0] ?? -1);
+        const track = createMockTrack(
+          {
+            name: `${this.set.tracks.length + 1}-${name === "create_midi_track" ? "MIDI" : "Audio"}`,
+            has_audio_input: name === "create_audio_track",
+          },
+          this.set.scenes.length
+        );
+        const at = index < 0 ? this.set.tracks.length : index;
+        shiftGroupTracks(this.set.tracks, at, 1);
+        insertAt(this.set.tracks, index, track);
+        return;
+      }
+      // Like Live, a group track is deleted and duplicated together with
+      // the tracks in it
+      case "song/delete_track": {
+        const index = Number(params[0]);
+        this.getTrack(index);
+        const count = 1 + countGroupedTracks(this.set.tracks, index);
+        this.set.tracks.splice(index, count);
+        shiftGroupTracks(this.set.tracks, index + count, -count);
+        return;
+      }
+      case "song/duplicate_track": {
+        const index = Number(params[0]);
+        this.getTrack(index);
+        const count = 1 + countGroupedTracks(this.set.tracks, index);
+        const copies = this.set.tracks
+          .slice(index, index + count)
+          .map(cloneTrack);
+        // The tracks in the copy belong to the copied group tracks
+        shiftGroupTracks(copies.slice(1), index, count);
+        shiftGroupTracks(this.set.tracks, index + count, count);
+        this.set.tracks.splice(index + count, 0, ...copies);
+        return;
+      }
+      case "song/create_scene": {
+        const index = Number(params[0] ?? -1);
+        const at = index < 0 ? this.set.scenes.length : index;
+        insertAt(this.set.scenes, at, createMockScene());
+        for (const track of this.set.tracks) {
+          track.clipSlots.splice(at, 0, createMockClipSlot());
+        }
+        return;
+      }
+      case "song/delete_scene": {
+        const index = Number(params[0]);
+        this.getScene(index);
+        this.set.scenes.splice(index, 1);
+        for (const track of this.set.tracks) {
+          track.clipSlots.splice(index, 1);
+        }
+        return;
+      }
+      case "song/duplicate_scene": {
+        const index = Number(params[0]);
+        const scene = this.getScene(index);
+        this.set.scenes.splice(index + 1, 0, {
+          props: { ...scene.props },
+        });
+        for (const track of this.set.tracks) {
+          const slot = track.clipSlots[index];
+          track.clipSlots.splice(index + 1, 0, cloneClipSlot(slot));
+        }
+        return;
+      }
+      case "song/jump_by":
+        this.set.song.current_song_time =
+          Number(this.set.song.current_song_time) + Number(params[0]);
+        return;
+      case "song/cue_point/add_or_delete": {
+        const time = Number(params[0]);
+        const idx = this.set.cuePoints.findIndex((c) => c.time === time);
+        if (idx === -1) {
+          this.set.cuePoints.push({ name: "", time });
+          this.set.cuePoints.sort((a, b) => a.time - b.time);
+        } else {
+          this.set.cuePoints.splice(idx, 1);
+        }
+        return;
+      }
+      case "song/cue_point/set/name": {
+        const cue = this.set.cuePoints[Number(params[0])];
+        if (!cue) throw new MockError("Cue point index out of range");
+        cue.name = String(params[1]);
+        return;
+      }
+      case "song/cue_point/jump": {
+        const target = params[0];
+        const cue =
+          typeof target === "string"
+            ? this.set.cuePoints.find((c) => c.name === target)
+            : this.set.cuePoints[Number(target)];
+        if (!cue) throw new MockError("Cue point not found");
+        this.set.song.current_song_time = cue.time;
+        return;
+      }
+      case "song/jump_to_next_cue":
+      case "song/jump_to_prev_cue":
+      case "song/undo":
+      case "song/redo":
+      case "song/tap_tempo":
+      case "song/capture_midi":
+      case "song/trigger_session_record":
+        return;
+
+      // Track
+      case "track/stop_all_clips":
+        this.stopTrack(ids[0]);
+        return;
+
+      // Clip
+      case "clip/fire":
+        this.fireSlot(ids[0], ids[1], true);
+        return;
+      case "clip/stop":
+        this.getClip(ids[0], ids[1]);
+        this.stopTrack(ids[0]);
+        return;
+      case "clip/add/notes": {
+        const clip = this.getClip(ids[0], ids[1]);
+        for (let i = 0; i + 4 < params.length; i += 5) {
+          clip.notes.push({
+            pitch: Number(params[i]),
+            startTime: Number(params[i + 1]),
+            duration: Number(params[i + 2]),
+            velocity: Number(params[i + 3]),
+            mute: Boolean(params[i + 4]),
+          });
+        }
+        return;
+      }
+      case "clip/remove/notes": {
+        const clip = this.getClip(ids[0], ids[1]);
+        if (params.length >= 4) {
+          const [pitch, pitchSpan, time, timeSpan] = params.map(Number);
+          clip.notes = clip.notes.filter(
+            (n) =>
+              !(
+                n.pitch >= pitch &&
+                n.pitch < pitch + pitchSpan &&
+                n.startTime >= time &&
+                n.startTime < time + timeSpan
+              )
+          );
+        } else {
+          clip.notes = [];
+        }
+        return;
+      }
+      case "clip/duplicate_loop": {
+        const clip = this.getClip(ids[0], ids[1]);
+        const length = Number(clip.props.length);
+        clip.notes.push(
+          ...clip.notes.map((n) => ({ ...n, startTime: n.startTime + length }))
+        );
+        clip.props.length = length * 2;
+        clip.props.loop_end = Number(clip.props.loop_end) + length;
+        return;
+      }
+      case "clip/quantize": {
+        const clip = this.getClip(ids[0], ids[1]);
+        const grid = Number(params[0]);
+        const strength = Number(params[1] ?? 1);
+        if (grid > 0) {
+          const step = 4 / grid;
+          for (const note of clip.notes) {
+            const target = Math.round(note.startTime / step) * step;
+            note.startTime += (target - note.startTime) * strength;
+          }
+        }
+        return;
+      }
+
+      // Clip slot
+      case "clip_slot/fire":
+        this.fireSlot(ids[0], ids[1], false);
+        return;
+      case "clip_slot/create_clip": {
+        const slot = this.getClipSlot(ids[0], ids[1]);
+        if (slot.clip) throw new MockError("Clip slot already has a clip");
+        const length = Number(params[0]);
+        slot.clip = createMockClip({
+          length,
+          loop_end: length,
+          end_marker: length,
+        });
+        return;
+      }
+      case "clip_slot/delete_clip":
+        this.getClipSlot(ids[0], ids[1]).clip = null;
+        return;
+      case "clip_slot/duplicate_clip_to": {
+        const source = this.getClipSlot(ids[0], ids[1]);
+        const target = this.getClipSlot(Number(params[0]), Number(params[1]));
+        target.clip = source.clip ? cloneClip(source.clip) : null;
+        return;
+      }
+
+      // Scene
+      case "scene/fire":
+      case "scene/fire_as_selected": {
+        this.getScene(ids[0]);
+        this.set.tracks.forEach((track, t) => {
+          if (track.clipSlots[ids[0]]?.clip) {
+            this.fireSlot(t, ids[0], false);
+          }
+        });
+        return;
+      }
+    }
+
+    throw new MockError(`Unknown OSC address: /live/${handler}`);
+  }
+
+  private fireSlot(trackId: number, slotId: number, requireClip: boolean) {
+    const slot = this.getClipSlot(trackId, slotId);
+    if (!slot.clip) {
+      if (requireClip) throw new MockError("No clip in slot");
+      this.stopTrack(trackId);
+      return;
+    }
+    this.stopTrack(trackId);
+    const track = this.set.tracks[trackId];
+    this.change("clip", [trackId, slotId], slot.clip.props, "is_playing", true);
+    this.change("clip_slot", [trackId, slotId], slot.props, "is_playing", true);
+    this.change("track", [trackId], track.props, "playing_slot_index", slotId);
+  }
+
+  private stopTrack(trackId: number): void {
+    const track = this.getTrack(trackId);
+    track.clipSlots.forEach((slot, s) => {
+      if (slot.clip) {
+        this.change("clip", [trackId, s], slot.clip.props, "is_playing", false);
+      }
+      this.change("clip_slot", [trackId, s], slot.props, "is_playing", false);
+    });
+    this.change("track", [trackId], track.props, "playing_slot_index", -1);
+  }
+
+  // ============ Lookups ============
+
+  private getTrack(trackId: number): MockTrack {
+    const track = this.set.tracks[trackId];
+    if (!track) throw new MockError(`Track index out of range: ${trackId}`);
+    return track;
+  }
+
+  /**
+   * Track addressed by a track, return track or master track scope
+   */
+  private trackOf(scope: Scope, ids: number[]): MockTrack {
+    if (scope.startsWith("master_track")) {
+      return this.set.masterTrack;
+    }
+    if (scope.startsWith("return_track")) {
+      const track = this.set.returnTracks[ids[0]];
+      if (!track) {
+        throw new MockError(`Return track index out of range: ${ids[0]}`);
+      }
+      return track;
+    }
+    return this.getTrack(ids[0]);
+  }
+
+  /**
+   * Device addressed by a device scope; the master track has no track index
+   */
+  private deviceOf(scope: Scope, ids: number[]): MockDevice {
+    const deviceId = scope === "master_track/device" ? ids[0] : ids[1];
+    const device = this.trackOf(scope, ids).devices[deviceId];
+    if (!device) throw new MockError(`Device index out of range: ${deviceId}`);
+    return device;
+  }
+
+  private getScene(sceneId: number): MockScene {
+    const scene = this.set.scenes[sceneId];
+    if (!scene) throw new MockError(`Scene index out of range: ${sceneId}`);
+    return scene;
+  }
+
+  private getClipSlot(trackId: number, slotId: number): MockClipSlot {
+    const slot = this.getTrack(trackId).clipSlots[slotId];
+    if (!slot) throw new MockError(`Clip slot index out of range: ${slotId}`);
+    return slot;
+  }
+
+  private getClip(trackId: number, slotId: number): MockClip {
+    const clip = this.getClipSlot(trackId, slotId).clip;
+    if (!clip) throw new MockError(`No clip in slot ${trackId}/${slotId}`);
+    return clip;
+  }
+
+  private getParameter(device: MockDevice, paramId: number): MockParameter {
+    const param = device.parameters[paramId];
+    if (!param) throw new MockError(`Parameter index out of range: ${paramId}`);
+    return param;
+  }
+}
+
+function readProp(props: MockProps, prop: string): OSCValue {
+  if (!(prop in props)) {
+    throw new MockError(`Unknown property: ${prop}`);
+  }
+  return props[prop];
+}
+
+/**
+ * Write a property, keeping booleans boolean (clients send them as 1/0)
+ */
+function writeProp(props: MockProps, prop: string, value: OSCValue): void {
+  if (!(prop in props)) {
+    throw new MockError(`Unknown property: ${prop}`);
+  }
+  props[prop] = typeof props[prop] === "boolean" ? Boolean(value) : value;
+}
+
+function parameterField(param: MockParameter, field: string): OSCValue {
+  switch (field) {
+    case "name":
+      return param.name;
+    case "value":
+      return param.value;
+    case "min":
+      return param.min;
+    case "max":
+      return param.max;
+    case "is_quantized":
+      return param.isQuantized;
+    case "value_string":
+      return String(Math.round(param.value * 100) / 100);
+  }
+  throw new MockError(`Unknown parameter property: ${field}`);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function insertAt<T>(list: T[], index: number, item: T): void {
+  if (index < 0 || index > list.length) {
+    list.push(item);
+  } else {
+    list.splice(index, 0, item);
+  }
+}
+
+/**
+ * Number of tracks nested in the track at `index`; Live lists them right
+ * after it
+ */
+function countGroupedTracks(tracks: MockTrack[], index: number): number {
+  const inside = new Set([index]);
+  for (let i = index + 1; i < tracks.length; i++) {
+    if (!inside.has(Number(tracks[i].props.group_track))) break;
+    inside.add(i);
+  }
+  return inside.size - 1;
+}
+
+/**
+ * Renumber group_track references to tracks from `from` on, which moved by
+ * `by`
+ */
+function shiftGroupTracks(tracks: MockTrack[], from: number, by: number) {
+  for (const track of tracks) {
+    const group = Number(track.props.group_track);
+    if (group >= from) {
+      track.props.group_track = group + by;
+    }
+  }
+}
+
+function cloneClip(clip: MockClip): MockClip {
+  return {
+    props: { ...clip.props },
+    notes: clip.notes.map((n) => ({ ...n })),
+  };
+}
+
+function cloneClipSlot(slot: MockClipSlot): MockClipSlot {
+  return {
+    props: { ...slot.props },
+    clip: slot.clip ? cloneClip(slot.clip) : null,
+  };
+}
+
+function cloneTrack(track: MockTrack): MockTrack {
+  return {
+    props: { ...track.props },
+    sends: [...track.sends],
+    clipSlots: track.clipSlots.map(cloneClipSlot),
+    devices: track.devices.map((d) => ({
+      props: { ...d.props },
+      parameters: d.parameters.map((p) => ({ ...p })),
+    })),
+    arrangementClips: track.arrangementClips.map((c) => ({ ...c })),
+  };
+}
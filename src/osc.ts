@@ -3,12 +3,131 @@
  * Send to port 11000, receive on port 11001
  */
 
-import dgram from "node:dgram";
 import { EventEmitter } from "node:events";
+import {
+  AbletonError,
+  AbletonRemoteError,
+  AbletonTimeoutError,
+  MiddlewareDroppedError,
+  NotConnectedError,
+  ProtocolError,
+} from "./errors.js";
+import {
+  SendScheduler,
+  type SendQueueMetrics,
+  type SendSchedulerOptions,
+} from "./scheduler.js";
+import type { MiddlewareContext, OSCMiddleware } from "./middleware.js";
+import { compileOSCPattern } from "./pattern.js";
+import {
+  UDPTransport,
+  type OSCTransport,
+  type RemoteInfo,
+} from "./transport.js";
+
+export interface OSCColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface OSCMidiMessage {
+  port: number;
+  status: number;
+  data1: number;
+  data2: number;
+}
+
+/**
+ * Argument values as parsed from incoming messages
+ */
+export type OSCValue =
+  | string
+  | number
+  | boolean
+  | null
+  | bigint
+  | Buffer
+  | OSCTimeTag
+  | OSCColor
+  | OSCMidiMessage
+  | OSCValue[];
+
+/**
+ * Argument with an explicit OSC type tag, e.g. `{ type: "f", value: 120 }`
+ */
+export type OSCTypedArgument =
+  | { type: "i" | "f" | "d"; value: number }
+  | { type: "h"; value: bigint | number }
+  | { type: "s" | "S" | "c"; value: string }
+  | { type: "b"; value: Buffer | Uint8Array }
+  | { type: "t"; value: OSCTimeTag }
+  | { type: "r"; value: OSCColor }
+  | { type: "m"; value: OSCMidiMessage }
+  | { type: "T" | "F" | "N" | "I" }
+  | { type: "["; value: OSCArgument[] };
+
+export type OSCArgument =
+  | OSCValue
+  | Uint8Array
+  | OSCTypedArgument
+  | OSCArgument[];
 
 export interface OSCMessage {
   address: string;
-  args: (string | number | boolean)[];
+  args: OSCArgument[];
+}
+
+/**
+ * NTP timestamp: seconds since 1900-01-01 and 1/2^32 fractions of a second
+ */
+export interface OSCTimeTag {
+  seconds: number;
+  fraction: number;
+}
+
+export interface OSCBundle {
+  timetag: OSCTimeTag;
+  elements: OSCPacket[];
+}
+
+export type OSCPacket = OSCMessage | OSCBundle;
+
+/**
+ * Special timetag meaning "execute immediately"
+ */
+export const IMMEDIATELY: OSCTimeTag = { seconds: 0, fraction: 1 };
+
+// Seconds between the NTP epoch (1900) and the Unix epoch (1970)
+const NTP_EPOCH_OFFSET = 2208988800;
+
+const BUNDLE_TAG = "#bundle";
+
+/**
+ * Convert a Date or Unix timestamp in ms to an OSC timetag
+ */
+export function toTimeTag(time: Date | number): OSCTimeTag {
+  const ms = time instanceof Date ? time.getTime() : time;
+  const seconds = Math.floor(ms / 1000);
+  const fraction = Math.round(((ms - seconds * 1000) / 1000) * 2 ** 32);
+  return {
+    seconds: seconds + NTP_EPOCH_OFFSET,
+    fraction: Math.min(fraction, 0xffffffff),
+  };
+}
+
+/**
+ * Convert an OSC timetag to a Date
+ */
+export function fromTimeTag(tag: OSCTimeTag): Date {
+  const ms =
+    (tag.seconds - NTP_EPOCH_OFFSET) * 1000 + (tag.fraction / 2 ** 32) * 1000;
+  return new Date(ms);
+}
+
+export function isOSCBundle(packet: OSCPacket): packet is OSCBundle {
+  return "elements" in packet;
 }
 
 /**
@@ -22,41 +141,152 @@ function oscString(s: string): Buffer {
 
 /**
  * Build an OSC message buffer
+ *
+ * Plain values are typed automatically (integers as `i`, other numbers as
+ * `f`, `Infinity` as `I`, bigint as `h`, Buffer as `b`, null as `N`, arrays
+ * as `[ ]`). Use an {@link OSCTypedArgument} to pick the type explicitly.
  */
 export function buildOSCMessage(
   address: string,
-  ...args: (string | number | boolean)[]
+  ...args: OSCArgument[]
 ): Buffer {
-  const parts: Buffer[] = [oscString(address)];
-
-  let typeTag = ",";
+  const tags: string[] = [];
   const argBuffers: Buffer[] = [];
 
   for (const arg of args) {
-    if (typeof arg === "number") {
-      if (Number.isInteger(arg)) {
-        typeTag += "i";
-        const buf = Buffer.alloc(4);
-        buf.writeInt32BE(arg);
-        argBuffers.push(buf);
-      } else {
-        typeTag += "f";
-        const buf = Buffer.alloc(4);
-        buf.writeFloatBE(arg);
-        argBuffers.push(buf);
-      }
-    } else if (typeof arg === "string") {
-      typeTag += "s";
-      argBuffers.push(oscString(arg));
-    } else if (typeof arg === "boolean") {
-      typeTag += arg ? "T" : "F";
+    encodeArgument(arg, tags, argBuffers);
+  }
+
+  return Buffer.concat([
+    oscString(address),
+    oscString("," + tags.join("")),
+    ...argBuffers,
+  ]);
+}
+
+function encodeArgument(
+  arg: OSCArgument,
+  tags: string[],
+  buffers: Buffer[]
+): void {
+  const typed = toTypedArgument(arg);
+
+  switch (typed.type) {
+    case "i": {
+      const buf = Buffer.alloc(4);
+      buf.writeInt32BE(typed.value);
+      buffers.push(buf);
+      break;
+    }
+    case "f": {
+      const buf = Buffer.alloc(4);
+      buf.writeFloatBE(typed.value);
+      buffers.push(buf);
+      break;
+    }
+    case "d": {
+      const buf = Buffer.alloc(8);
+      buf.writeDoubleBE(typed.value);
+      buffers.push(buf);
+      break;
+    }
+    case "h": {
+      const buf = Buffer.alloc(8);
+      buf.writeBigInt64BE(BigInt(typed.value));
+      buffers.push(buf);
+      break;
+    }
+    case "s":
+    case "S":
+      buffers.push(oscString(typed.value));
+      break;
+    case "c": {
+      const buf = Buffer.alloc(4);
+      buf.writeUInt32BE(typed.value.charCodeAt(0) || 0);
+      buffers.push(buf);
+      break;
+    }
+    case "b": {
+      const size = Buffer.alloc(4);
+      size.writeInt32BE(typed.value.length);
+      const padding = (4 - (typed.value.length % 4)) % 4;
+      buffers.push(size, Buffer.from(typed.value), Buffer.alloc(padding));
+      break;
+    }
+    case "t": {
+      const buf = Buffer.alloc(8);
+      buf.writeUInt32BE(typed.value.seconds >>> 0, 0);
+      buf.writeUInt32BE(typed.value.fraction >>> 0, 4);
+      buffers.push(buf);
+      break;
+    }
+    case "r": {
+      const { r, g, b, a } = typed.value;
+      buffers.push(Buffer.from([r, g, b, a]));
+      break;
+    }
+    case "m": {
+      const { port, status, data1, data2 } = typed.value;
+      buffers.push(Buffer.from([port, status, data1, data2]));
+      break;
     }
+    case "[":
+      tags.push("[");
+      for (const item of typed.value) {
+        encodeArgument(item, tags, buffers);
+      }
+      tags.push("]");
+      return;
   }
 
-  parts.push(oscString(typeTag));
-  parts.push(...argBuffers);
+  tags.push(typed.type);
+}
 
-  return Buffer.concat(parts);
+/**
+ * Normalize a plain or typed argument to its typed form
+ */
+export function toTypedArgument(arg: OSCArgument): OSCTypedArgument {
+  if (arg === null) {
+    return { type: "N" };
+  }
+  if (Array.isArray(arg)) {
+    return { type: "[", value: arg };
+  }
+  if (Buffer.isBuffer(arg) || arg instanceof Uint8Array) {
+    return { type: "b", value: arg };
+  }
+
+  switch (typeof arg) {
+    case "number":
+      if (arg === Infinity) return { type: "I" };
+      return Number.isInteger(arg)
+        ? { type: "i", value: arg }
+        : { type: "f", value: arg };
+    case "bigint":
+      return { type: "h", value: arg };
+    case "string":
+      return { type: "s", value: arg };
+    case "boolean":
+      return { type: arg ? "T" : "F" };
+  }
+
+  if ("type" in arg) {
+    return arg;
+  }
+  if ("seconds" in arg) {
+    return { type: "t", value: arg };
+  }
+  if ("status" in arg) {
+    return { type: "m", value: arg };
+  }
+  return { type: "r", value: arg };
+}
+
+/**
+ * Force a number to be sent as a 32-bit float, even if it is whole
+ */
+export function float(value: number): OSCTypedArgument {
+  return { type: "f", value };
 }
 
 /**
@@ -64,49 +294,364 @@ export function buildOSCMessage(
  */
 export function parseOSCMessage(data: Buffer): OSCMessage {
   // Find address (null-terminated string)
-  let nullIdx = data.indexOf(0);
-  const address = data.subarray(0, nullIdx).toString();
-
-  // Align to 4 bytes
-  let pos = nullIdx + 1;
-  pos += (4 - (pos % 4)) % 4;
+  const address = readString(data, 0);
+  let pos = address.next;
 
   // Find type tag
-  if (data[pos] !== 0x2c) {
+  if (pos >= data.length || data[pos] !== 0x2c) {
     // ','
-    return { address, args: [] };
+    return { address: address.value, args: [] };
+  }
+
+  const typeTag = readString(data, pos);
+  pos = typeTag.next;
+
+  // Parse arguments; arrays nest via a stack of argument lists
+  const stack: OSCValue[][] = [[]];
+
+  for (let i = 1; i < typeTag.value.length; i++) {
+    const t = typeTag.value[i];
+    const args = stack[stack.length - 1];
+
+    if (pos + (FIXED_SIZES[t] ?? 0) > data.length) {
+      throw new ProtocolError(`Truncated OSC message: missing '${t}' argument`);
+    }
+
+    switch (t) {
+      case "i":
+        args.push(data.readInt32BE(pos));
+        pos += 4;
+        break;
+      case "f":
+        args.push(data.readFloatBE(pos));
+        pos += 4;
+        break;
+      case "d":
+        args.push(data.readDoubleBE(pos));
+        pos += 8;
+        break;
+      case "h":
+        args.push(data.readBigInt64BE(pos));
+        pos += 8;
+        break;
+      case "s":
+      case "S": {
+        const str = readString(data, pos);
+        args.push(str.value);
+        pos = str.next;
+        break;
+      }
+      case "c":
+        args.push(String.fromCharCode(data.readUInt32BE(pos)));
+        pos += 4;
+        break;
+      case "b": {
+        const size = data.readInt32BE(pos);
+        pos += 4;
+        if (size < 0 || pos + size > data.length) {
+          throw new ProtocolError(
+            "Truncated OSC message: blob size out of range"
+          );
+        }
+        args.push(Buffer.from(data.subarray(pos, pos + size)));
+        pos += size + ((4 - (size % 4)) % 4);
+        break;
+      }
+      case "t":
+        args.push({
+          seconds: data.readUInt32BE(pos),
+          fraction: data.readUInt32BE(pos + 4),
+        });
+        pos += 8;
+        break;
+      case "r":
+        args.push({
+          r: data[pos],
+          g: data[pos + 1],
+          b: data[pos + 2],
+          a: data[pos + 3],
+        });
+        pos += 4;
+        break;
+      case "m":
+        args.push({
+          port: data[pos],
+          status: data[pos + 1],
+          data1: data[pos + 2],
+          data2: data[pos + 3],
+        });
+        pos += 4;
+        break;
+      case "T":
+        args.push(true);
+        break;
+      case "F":
+        args.push(false);
+        break;
+      case "N":
+        args.push(null);
+        break;
+      case "I":
+        args.push(Infinity);
+        break;
+      case "[": {
+        const nested: OSCValue[] = [];
+        args.push(nested);
+        stack.push(nested);
+        break;
+      }
+      case "]":
+        if (stack.length === 1) {
+          throw new ProtocolError("Malformed OSC type tag: unmatched ']'");
+        }
+        stack.pop();
+        break;
+      default:
+        throw new ProtocolError(
+          `Unsupported OSC type tag '${t}' in ${address.value}`,
+          { address: address.value }
+        );
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new ProtocolError("Malformed OSC type tag: unterminated '['");
+  }
+
+  return { address: address.value, args: stack[0] };
+}
+
+// Bytes required up front by fixed-size argument types
+const FIXED_SIZES: Record<string, number> = {
+  i: 4,
+  f: 4,
+  c: 4,
+  r: 4,
+  m: 4,
+  b: 4,
+  d: 8,
+  h: 8,
+  t: 8,
+};
+
+/**
+ * Read a null-terminated, 4-byte aligned string
+ */
+function readString(
+  data: Buffer,
+  pos: number
+): { value: string; next: number } {
+  let nullIdx = data.indexOf(0, pos);
+  if (nullIdx === -1) {
+    nullIdx = data.length;
   }
+  const value = data.subarray(pos, nullIdx).toString();
+  let next = nullIdx + 1;
+  next += (4 - (next % 4)) % 4;
+  return { value, next };
+}
 
-  nullIdx = data.indexOf(0, pos);
-  const typeTag = data.subarray(pos, nullIdx).toString();
-  pos = nullIdx + 1;
-  pos += (4 - (pos % 4)) % 4;
+/**
+ * Build an OSC bundle buffer (bundles may be nested)
+ */
+export function buildOSCBundle(bundle: OSCBundle): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(bundle.timetag.seconds >>> 0, 0);
+  header.writeUInt32BE(bundle.timetag.fraction >>> 0, 4);
 
-  // Parse arguments
-  const args: (string | number | boolean)[] = [];
+  const parts: Buffer[] = [oscString(BUNDLE_TAG), header];
+  for (const element of bundle.elements) {
+    const data = buildOSCPacket(element);
+    const size = Buffer.alloc(4);
+    size.writeInt32BE(data.length);
+    parts.push(size, data);
+  }
 
-  for (let i = 1; i < typeTag.length; i++) {
-    const t = typeTag[i];
+  return Buffer.concat(parts);
+}
 
-    if (t === "f") {
-      args.push(data.readFloatBE(pos));
-      pos += 4;
-    } else if (t === "i") {
-      args.push(data.readInt32BE(pos));
-      pos += 4;
-    } else if (t === "s") {
-      nullIdx = data.indexOf(0, pos);
-      args.push(data.subarray(pos, nullIdx).toString());
-      pos = nullIdx + 1;
-      pos += (4 - (pos % 4)) % 4;
-    } else if (t === "T") {
-      args.push(true);
-    } else if (t === "F") {
-      args.push(false);
+/**
+ * Build an OSC message or bundle buffer
+ */
+export function buildOSCPacket(packet: OSCPacket): Buffer {
+  if (isOSCBundle(packet)) {
+    return buildOSCBundle(packet);
+  }
+  return buildOSCMessage(packet.address, ...packet.args);
+}
+
+/**
+ * Parse an OSC message or bundle buffer
+ */
+export function parseOSCPacket(data: Buffer): OSCPacket {
+  if (!isBundleData(data)) {
+    return parseOSCMessage(data);
+  }
+
+  const timetag: OSCTimeTag = {
+    seconds: data.readUInt32BE(8),
+    fraction: data.readUInt32BE(12),
+  };
+
+  const elements: OSCPacket[] = [];
+  let pos = 16;
+  while (pos < data.length) {
+    const size = data.readInt32BE(pos);
+    pos += 4;
+    if (size < 0 || pos + size > data.length) {
+      throw new ProtocolError(
+        "Malformed OSC bundle: element size out of range"
+      );
     }
+    elements.push(parseOSCPacket(data.subarray(pos, pos + size)));
+    pos += size;
   }
 
-  return { address, args };
+  return { timetag, elements };
+}
+
+function isBundleData(data: Buffer): boolean {
+  return (
+    data.length >= 16 &&
+    data.subarray(0, BUNDLE_TAG.length).toString() === BUNDLE_TAG &&
+    data[BUNDLE_TAG.length] === 0
+  );
+}
+
+/**
+ * Flatten a packet into its messages, in order
+ */
+export function unpackOSCPacket(packet: OSCPacket): OSCMessage[] {
+  if (!isOSCBundle(packet)) {
+    return [packet];
+  }
+  return packet.elements.flatMap(unpackOSCPacket);
+}
+
+/**
+ * Number of leading index arguments (track_id, clip_id, device_id, param_id)
+ * that AbletonOSC echoes back in replies to a given address
+ */
+export function getIndexArgCount(address: string): number {
+  if (address.startsWith("/live/return_track/device/"))
+    return address.includes("/parameter/") ? 3 : 2;
+  if (address.startsWith("/live/master_track/device/"))
+    return address.includes("/parameter/") ? 2 : 1;
+  if (address.startsWith("/live/return_track/")) return 1;
+  if (address.startsWith("/live/device/") && address.includes("/parameter/"))
+    return 3;
+  if (address.startsWith("/live/device/")) return 2;
+  if (address.startsWith("/live/clip_slot/")) return 2;
+  if (address.startsWith("/live/clip/")) return 2;
+  if (address.startsWith("/live/track/") && address.endsWith("/send")) return 2;
+  if (address.startsWith("/live/track/")) return 1;
+  if (address.startsWith("/live/scene/")) return 1;
+  return 0;
+}
+
+/**
+ * Build the key used to match a reply to its query: the address plus the
+ * index arguments echoed back by AbletonOSC
+ */
+export function getCorrelationKey(
+  address: string,
+  args: OSCArgument[]
+): string {
+  const count = getIndexArgCount(address);
+  if (count === 0) {
+    return address;
+  }
+  const ids = args.slice(0, count).map((arg) => {
+    const typed = toTypedArgument(arg);
+    return "value" in typed ? String(typed.value) : typed.type;
+  });
+  return `${address} ${ids.join(" ")}`;
+}
+
+export interface RetryPolicy {
+  /** Total attempts, including the first one */
+  attempts: number;
+  /** How long to wait for a reply before resending, in ms */
+  attemptTimeout: number;
+  /** Delay before the first resend, in ms */
+  backoff: number;
+  /** Multiplier applied to the delay after each attempt */
+  factor: number;
+  /** Upper bound for the delay, in ms */
+  maxBackoff: number;
+  /** Random spread applied to each delay, as a fraction (0.2 = ±20%) */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  attemptTimeout: 1000,
+  backoff: 100,
+  factor: 2,
+  maxBackoff: 1000,
+  jitter: 0.2,
+};
+
+export interface QueryOptions {
+  /** Overall timeout in ms for this query (default: the client timeout) */
+  timeout?: number;
+  /** Cancels the query; it then rejects with `signal.reason` */
+  signal?: AbortSignal;
+  /** Retry settings for this query, or false to send it only once */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Whether resending is safe. Defaults to true for getters (`/get/`
+   * addresses and `/live/test`), which are the only queries retried.
+   */
+  idempotent?: boolean;
+  /**
+   * Write the query straight to the transport instead of queueing it behind
+   * rate-limited packets, e.g. for heartbeats whose round trip is timed.
+   * It may then overtake sets queued before it.
+   */
+  bypassRateLimit?: boolean;
+}
+
+/**
+ * Whether a query can be resent without side effects
+ */
+export function isIdempotentAddress(address: string): boolean {
+  return address.includes("/get/") || address === "/live/test";
+}
+
+/**
+ * Delay before the next attempt, with exponential backoff and jitter
+ */
+function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(
+    policy.maxBackoff,
+    policy.backoff * policy.factor ** (attempt - 1)
+  );
+  const spread = base * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, base + spread);
+}
+
+interface PendingQuery {
+  address: string;
+  args: OSCArgument[];
+  started: number;
+  resolve: (msg: OSCMessage) => void;
+  fail: (err: Error) => void;
+  timer: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Handler for messages matching a subscription pattern
+ */
+export type SubscriptionHandler = (
+  args: OSCValue[],
+  message: OSCMessage,
+  remote?: RemoteInfo
+) => void;
+
+interface Subscription {
+  pattern: RegExp;
+  handler: SubscriptionHandler;
 }
 
 export interface OSCClientOptions {
@@ -114,116 +659,547 @@ export interface OSCClientOptions {
   sendPort?: number;
   receivePort?: number;
   timeout?: number;
+  /** Retry settings for idempotent queries */
+  retry?: Partial<RetryPolicy>;
+  /** Transport to use instead of the default UDP socket */
+  transport?: OSCTransport;
+  /** Rate limit and coalesce outgoing packets (off by default) */
+  rateLimit?: SendSchedulerOptions;
 }
 
 /**
  * OSC Client for communicating with AbletonOSC
  */
 export class OSCClient extends EventEmitter {
-  private host: string;
-  private sendPort: number;
-  private receivePort: number;
   private timeout: number;
-  private socket: dgram.Socket | null = null;
-  private responseHandlers: Map<
-    string,
-    { resolve: (msg: OSCMessage) => void; timer: NodeJS.Timeout }
-  > = new Map();
+  private retry: RetryPolicy;
+  private transport: OSCTransport;
+  private scheduler: SendScheduler | null = null;
+  // Pending queries by correlation key, oldest first
+  private responseHandlers: Map<string, PendingQuery[]> = new Map();
+  private middleware: OSCMiddleware[] = [];
+  private subscriptions: Set<Subscription> = new Set();
 
   constructor(options: OSCClientOptions) {
     super();
-    this.host = options.host;
-    this.sendPort = options.sendPort ?? 11000;
-    this.receivePort = options.receivePort ?? 11001;
     this.timeout = options.timeout ?? 5000;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.transport =
+      options.transport ??
+      new UDPTransport({
+        host: options.host,
+        sendPort: options.sendPort ?? 11000,
+        receivePort: options.receivePort ?? 11001,
+      });
+
+    if (options.rateLimit) {
+      this.scheduler = new SendScheduler(
+        options.rateLimit,
+        (data) => this.write(data),
+        (err) => this.emit("error", err)
+      );
+    }
+
+    this.transport.on("error", (err) => {
+      this.emit("error", err);
+    });
+
+    this.transport.on("packet", (data, remote) => {
+      this.receive(data, remote);
+    });
+  }
+
+  /**
+   * Whether the transport is open and able to send
+   */
+  get isOpen(): boolean {
+    return this.transport.isOpen;
   }
 
   /**
    * Start listening for responses
    */
   async connect(): Promise<void> {
+    await this.transport.open();
+    this.emit("connect");
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.scheduler?.clear();
+    this.transport.close();
+  }
+
+  /**
+   * Number of packets waiting in the send queue
+   */
+  get queueDepth(): number {
+    return this.scheduler?.depth ?? 0;
+  }
+
+  /**
+   * Send queue statistics, or null when rate limiting is off
+   */
+  getQueueMetrics(): SendQueueMetrics | null {
+    return this.scheduler?.metrics ?? null;
+  }
+
+  /**
+   * Send everything in the send queue immediately
+   */
+  flush(): void {
+    this.scheduler?.flush();
+  }
+
+  /**
+   * Add middleware for outgoing and incoming messages; middleware runs in
+   * the order added. Returns a function that removes it again.
+   */
+  use(middleware: OSCMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const idx = this.middleware.indexOf(middleware);
+      if (idx !== -1) {
+        this.middleware.splice(idx, 1);
+      }
+    };
+  }
+
+  /**
+   * Send an OSC message (fire and forget)
+   */
+  send(address: string, ...args: OSCArgument[]): void {
+    this.sendMessage(address, args, false);
+  }
+
+  /**
+   * Pass a message through middleware and send it; returns false when a
+   * middleware dropped it
+   */
+  private sendMessage(
+    address: string,
+    args: OSCArgument[],
+    query: boolean,
+    bypassRateLimit = false
+  ): boolean {
+    if (!this.transport.isOpen) {
+      throw new NotConnectedError({ address, args });
+    }
+
+    const out = this.applyOutgoing({ address, args }, query);
+    if (!out) {
+      return false;
+    }
+    this.writeMessage(out.address, out.args, bypassRateLimit);
+    return true;
+  }
+
+  private writeMessage(
+    address: string,
+    args: OSCArgument[],
+    bypassRateLimit = false
+  ): void {
+    const msg = buildOSCMessage(address, ...args);
+    if (this.scheduler && !bypassRateLimit) {
+      // Only sets are coalesced; everything else keeps every packet
+      const key = address.includes("/set/")
+        ? getCorrelationKey(address, args)
+        : undefined;
+      this.scheduler.enqueue(msg, key);
+    } else {
+      this.write(msg);
+    }
+  }
+
+  /**
+   * Send an already encoded OSC packet (message or bundle), bypassing
+   * middleware
+   */
+  sendRaw(data: Buffer): void {
+    if (!this.transport.isOpen) {
+      throw new NotConnectedError();
+    }
+
+    if (this.scheduler) {
+      this.scheduler.enqueue(data);
+    } else {
+      this.write(data);
+    }
+  }
+
+  /**
+   * Handle an encoded packet as if the transport had received it
+   */
+  receive(data: Buffer, remote?: RemoteInfo): void {
+    this.emit("received", data, remote);
+    let messages: OSCMessage[];
+    try {
+      // Bundles are unpacked so their messages arrive together, in order
+      messages = unpackOSCPacket(parseOSCPacket(data));
+    } catch (err) {
+      // A bad datagram is not a transport failure: report it on its own
+      // event, which is safe to leave unhandled
+      this.emit("protocolError", err, data, remote);
+      return;
+    }
+    try {
+      for (const msg of messages) {
+        this.deliver(msg, remote);
+      }
+    } catch (err) {
+      this.emit("error", err);
+    }
+  }
+
+  // ============ Middleware ============
+
+  /**
+   * Run the middleware chain; returns false when a middleware dropped it
+   */
+  private runMiddleware(ctx: MiddlewareContext): boolean {
+    const chain = [...this.middleware];
+    let reached = 0;
+    const dispatch = (i: number): void => {
+      reached = i;
+      const middleware = chain[i];
+      if (!middleware) {
+        return;
+      }
+      let called = false;
+      middleware(ctx, () => {
+        if (!called) {
+          called = true;
+          dispatch(i + 1);
+        }
+      });
+    };
+    dispatch(0);
+    return reached === chain.length;
+  }
+
+  private applyOutgoing(msg: OSCMessage, query: boolean): OSCMessage | null {
+    const ctx: MiddlewareContext = {
+      direction: "out",
+      message: msg,
+      query,
+      respond: (reply) => this.deliver(reply),
+    };
+    return this.runMiddleware(ctx) ? ctx.message : null;
+  }
+
+  private applyOutgoingBundle(bundle: OSCBundle): OSCBundle {
+    const elements: OSCPacket[] = [];
+    for (const element of bundle.elements) {
+      if (isOSCBundle(element)) {
+        const inner = this.applyOutgoingBundle(element);
+        if (inner.elements.length > 0) {
+          elements.push(inner);
+        }
+      } else {
+        const msg = this.applyOutgoing(element, false);
+        if (msg) {
+          elements.push(msg);
+        }
+      }
+    }
+    return { timetag: bundle.timetag, elements };
+  }
+
+  /**
+   * Pass an incoming message through middleware, then to listeners and
+   * pending queries
+   */
+  private deliver(msg: OSCMessage, remote?: RemoteInfo): void {
+    const ctx: MiddlewareContext = {
+      direction: "in",
+      message: msg,
+      remote,
+      query: false,
+      respond: () => {
+        throw new AbletonError(
+          "respond() is only available for outgoing messages",
+          { address: msg.address, args: msg.args }
+        );
+      },
+    };
+    if (this.runMiddleware(ctx)) {
+      this.handleMessage(ctx.message, remote);
+    }
+  }
+
+  private write(data: Buffer): void {
+    this.transport.send(data);
+    this.emit("sent", data, this.transport.destination);
+  }
+
+  /**
+   * Send several messages in one bundle so they are applied atomically
+   * @param time When the receiver should apply the bundle (default: immediately)
+   */
+  sendBundle(
+    elements: OSCPacket[],
+    time: OSCTimeTag | Date | number = IMMEDIATELY
+  ): void {
+    const timetag =
+      time instanceof Date || typeof time === "number" ? toTimeTag(time) : time;
+    const bundle = this.applyOutgoingBundle({ timetag, elements });
+    if (bundle.elements.length > 0) {
+      this.sendRaw(buildOSCBundle(bundle));
+    }
+  }
+
+  /**
+   * Send an OSC message and wait for response
+   */
+  async query(address: string, ...args: OSCArgument[]): Promise<OSCMessage> {
+    return this.request(address, args);
+  }
+
+  /**
+   * Send an OSC message and wait for response, with per-call options
+   */
+  async request(
+    address: string,
+    args: OSCArgument[] = [],
+    options: QueryOptions = {}
+  ): Promise<OSCMessage> {
+    if (!this.transport.isOpen) {
+      throw new NotConnectedError({ address, args });
+    }
+
+    const key = getCorrelationKey(address, args);
+    const timeout = options.timeout ?? this.timeout;
+    const idempotent = options.idempotent ?? isIdempotentAddress(address);
+    const policy: RetryPolicy =
+      idempotent && options.retry !== false
+        ? { ...this.retry, ...options.retry }
+        : { ...this.retry, attempts: 1 };
+
+    const { signal } = options;
+    signal?.throwIfAborted();
+
     return new Promise((resolve, reject) => {
-      this.socket = dgram.createSocket("udp4");
+      const started = Date.now();
+      const deadline = started + timeout;
+      let attempt = 0;
+      let settled = false;
 
-      this.socket.on("error", (err) => {
-        this.emit("error", err);
+      const onAbort = () => fail(signal!.reason);
+
+      const cleanup = () => {
+        clearTimeout(pending.timer);
+        this.removePending(key, pending);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const fail = (err: Error) => {
+        settled = true;
+        cleanup();
         reject(err);
-      });
+      };
+
+      const pending: PendingQuery = {
+        address,
+        args,
+        started,
+        resolve: (msg) => {
+          settled = true;
+          cleanup();
+          resolve(msg);
+        },
+        fail,
+        timer: undefined,
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const timedOut = () =>
+        fail(
+          new AbletonTimeoutError(
+            `Timeout waiting for response to ${address}`,
+            { address, args, elapsed: Date.now() - started }
+          )
+        );
+
+      // The pending handler stays registered across attempts, so a late
+      // reply to an earlier attempt still resolves the query
+      const sendAttempt = () => {
+        attempt++;
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          timedOut();
+          return;
+        }
+
+        const isLast = attempt >= policy.attempts;
+        const wait = isLast
+          ? remaining
+          : Math.min(policy.attemptTimeout, remaining);
+
+        pending.timer = setTimeout(() => {
+          if (isLast || Date.now() >= deadline) {
+            timedOut();
+            return;
+          }
+          const delay = getBackoffDelay(policy, attempt);
+          pending.timer = setTimeout(sendAttempt, delay);
+        }, wait);
 
-      this.socket.on("message", (data) => {
         try {
-          const msg = parseOSCMessage(data);
-          this.emit("message", msg);
-
-          // Check for pending response handlers
-          const handler = this.responseHandlers.get(msg.address);
-          if (handler) {
-            clearTimeout(handler.timer);
-            this.responseHandlers.delete(msg.address);
-            handler.resolve(msg);
+          // A middleware may answer the query itself with respond(); one
+          // that drops it without an answer fails it at once, unretried
+          if (
+            !this.sendMessage(address, args, true, options.bypassRateLimit) &&
+            !settled
+          ) {
+            fail(
+              new MiddlewareDroppedError({
+                address,
+                args,
+                elapsed: Date.now() - started,
+              })
+            );
           }
         } catch (err) {
-          this.emit("error", err);
+          fail(err as Error);
         }
-      });
+      };
 
-      this.socket.bind(this.receivePort, () => {
-        this.emit("connect");
-        resolve();
-      });
+      const queue = this.responseHandlers.get(key);
+      if (queue) {
+        queue.push(pending);
+      } else {
+        this.responseHandlers.set(key, [pending]);
+      }
+      sendAttempt();
     });
   }
 
   /**
-   * Close the connection
+   * Call `handler` for every incoming message whose address matches an OSC
+   * pattern (`*`, `?`, `[a-z]`, `{foo,bar}`). Returns an unsubscribe function.
+   *
+   * @example
+   * ```typescript
+   * client.subscribe("/live/track/get/{mute,solo}", ([trackId, value]) => {
+   *   console.log(trackId, value);
+   * });
+   * ```
    */
-  close(): void {
-    if (this.socket) {
-      this.socket.close();
-      this.socket = null;
+  subscribe(pattern: string, handler: SubscriptionHandler): () => void {
+    const subscription: Subscription = {
+      pattern: compileOSCPattern(pattern),
+      handler,
+    };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  private handleMessage(msg: OSCMessage, remote?: RemoteInfo): void {
+    this.emit("message", msg, remote);
+
+    for (const subscription of [...this.subscriptions]) {
+      if (!subscription.pattern.test(msg.address)) {
+        continue;
+      }
+      try {
+        subscription.handler(msg.args as OSCValue[], msg, remote);
+      } catch (err) {
+        this.emit("error", err);
+      }
+    }
+
+    if (msg.address === "/live/error") {
+      this.handleRemoteError(msg);
+      return;
     }
+
+    // Check for pending response handlers
+    const key = getCorrelationKey(msg.address, msg.args);
+    this.takePending(key)?.resolve(msg);
   }
 
   /**
-   * Send an OSC message (fire and forget)
+   * Reject the pending query that a /live/error reply refers to: the oldest
+   * one whose address the error names. AbletonOSC usually reports only the
+   * exception ("Error handling OSC message: ..."), which cannot be tied to a
+   * query, so such errors and errors about an address with no pending
+   * query, such as a failed set, are emitted as "remoteError" instead.
    */
-  send(address: string, ...args: (string | number | boolean)[]): void {
-    if (!this.socket) {
-      throw new Error("Not connected");
+  private handleRemoteError(msg: OSCMessage): void {
+    const text = msg.args.map(String).join(" ");
+    const named: string[] = text.match(/\/live\/[^\s:,]+/g) ?? [];
+    const address = named[0];
+
+    let target: PendingQuery | undefined;
+    for (const queue of this.responseHandlers.values()) {
+      for (const pending of queue) {
+        if (!named.includes(pending.address)) continue;
+        if (!target || pending.started < target.started) target = pending;
+      }
     }
 
-    const msg = buildOSCMessage(address, ...args);
-    this.socket.send(msg, this.sendPort, this.host);
+    if (!target) {
+      this.emit("remoteError", new AbletonRemoteError(text, { address }));
+      return;
+    }
+
+    target.fail(
+      new AbletonRemoteError(text, {
+        address: target.address,
+        args: target.args,
+        elapsed: Date.now() - target.started,
+      })
+    );
   }
 
   /**
-   * Send an OSC message and wait for response
+   * Remove and return the oldest pending query for a correlation key
    */
-  async query(
-    address: string,
-    ...args: (string | number | boolean)[]
-  ): Promise<OSCMessage> {
-    if (!this.socket) {
-      throw new Error("Not connected");
+  private takePending(key: string): PendingQuery | undefined {
+    const queue = this.responseHandlers.get(key);
+    if (!queue) {
+      return undefined;
+    }
+    const pending = queue.shift();
+    if (queue.length === 0) {
+      this.responseHandlers.delete(key);
     }
+    return pending;
+  }
 
-    return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        this.responseHandlers.delete(address);
-        reject(new Error(`Timeout waiting for response to ${address}`));
-      }, this.timeout);
+  private removePending(key: string, pending: PendingQuery): void {
+    const queue = this.responseHandlers.get(key);
+    if (!queue) {
+      return;
+    }
+    const idx = queue.indexOf(pending);
+    if (idx !== -1) {
+      queue.splice(idx, 1);
+    }
+    if (queue.length === 0) {
+      this.responseHandlers.delete(key);
+    }
+  }
 
-      this.responseHandlers.set(address, { resolve, timer });
-      this.send(address, ...args);
-    });
+  /**
+   * Close and reopen the transport, e.g. after a socket error
+   */
+  async reconnect(): Promise<void> {
+    this.transport.close();
+    await this.connect();
   }
 
   /**
    * Test connection to Ableton
    */
-  async ping(): Promise<boolean> {
+  async ping(options?: QueryOptions): Promise<boolean> {
     try {
-      const response = await this.query("/live/test");
+      const response = await this.request("/live/test", [], options);
       return response.args[0] === "ok";
     } catch {
       return false;
@@ -0,0 +1,556 @@
+/**
+ * Live object paths
+ *
+ * A path such as `tracks['Bass'].devices[1].parameters['Cutoff']` names
+ * tracks, devices, parameters and the like by index, by name or with a `*`
+ * wildcard, and optionally ends in a property (`tracks[*].mute`). Resolving
+ * it walks the Track, Device, Clip, ... objects, so the targets follow
+ * structural changes the same way those handles do.
+ */
+
+import type { OSCClient, QueryOptions } from "./osc.js";
+import { NameNotFoundError, PathError } from "./errors.js";
+import {
+  ENDPOINTS,
+  checkEndpointArgs,
+  requestEndpoint,
+  sendEndpoint,
+  type Endpoint,
+  type EndpointArgs,
+  type QueryEndpoint,
+  type SendEndpoint,
+  type TrackKind,
+} from "./schema.js";
+import {
+  indexOf,
+  iterate,
+  ListenerRegistry,
+  type ListenerCallback,
+  type ListenId,
+  type WatchOptions,
+} from "./listeners.js";
+import { HandleRegistry } from "./handles.js";
+import { findByName, type FindOptions } from "./lookup.js";
+import { Song } from "./song.js";
+import { Track } from "./track.js";
+import { ReturnTrack } from "./return-track.js";
+import { MasterTrack } from "./master-track.js";
+import { Scene } from "./scene.js";
+import { Clip } from "./clip.js";
+import { ClipSlot } from "./clip-slot.js";
+import { Device } from "./device.js";
+
+/** Which children of a collection segment are meant */
+export type PathSelector =
+  | { type: "index"; index: number }
+  | { type: "name"; name: string }
+  | { type: "all" };
+
+export interface PathSegment {
+  name: string;
+  selector?: PathSelector;
+}
+
+/** Any Live object a path can lead to */
+export type PathObject =
+  | Song
+  | Track
+  | ReturnTrack
+  | MasterTrack
+  | Scene
+  | ClipSlot
+  | Clip
+  | Device;
+
+export interface PathTarget {
+  /** Path of this target with indices, e.g. `tracks[2].devices[0]` */
+  path: string;
+  object: PathObject;
+  /** Parameter index when the path leads to a device parameter */
+  parameter?: number;
+  /** Property read, set and watched; null if the path ends at an object */
+  property: string | null;
+}
+
+/** A value reported by `ResolvedPath.watch()` */
+export interface PathChange {
+  /** Path of the target that changed, with indices */
+  path: string;
+  value: unknown;
+}
+
+// Properties of a parameter; a path ending at the parameter means its value
+const PARAMETER_PROPERTIES = ["value", "min", "max", "name"];
+
+const SEGMENT =
+  /\s*([A-Za-z_]\w*)\s*(?:\[\s*(?:(\d+)|(\*)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\])?\s*/y;
+
+/**
+ * Split a path into segments. Throws PathError on malformed paths.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let position = 0;
+  for (;;) {
+    SEGMENT.lastIndex = position;
+    const match = SEGMENT.exec(path);
+    if (!match) {
+      throw new PathError(`Unexpected input at ${position}`, path);
+    }
+    const [, name, index, all, single, double] = match;
+    const quoted = single ?? double;
+    segments.push({
+      name,
+      selector:
+        index !== undefined
+          ? { type: "index", index: Number(index) }
+          : all !== undefined
+            ? { type: "all" }
+            : quoted !== undefined
+              ? { type: "name", name: quoted.replace(/\\(.)/g, "$1") }
+              : undefined,
+    });
+    position = SEGMENT.lastIndex;
+    if (position === path.length) return segments;
+    if (path[position] !== ".") {
+      throw new PathError(`Expected "." at ${position}`, path);
+    }
+    position++;
+  }
+}
+
+/**
+ * Resolve a path to its targets, looking names up in Live. Names must match
+ * exactly one object (see `findByName()`); wildcards fan out to every object
+ * of the collection. After a wildcard, a name only has to match in some of
+ * the branches; the others are left out.
+ */
+export async function resolvePath(
+  client: OSCClient,
+  path: string,
+  options?: FindOptions
+): Promise<ResolvedPath> {
+  const segments = parsePath(path);
+  let targets: Partial<PathTarget>[] = [{ path: "" }];
+  let fannedOut = false;
+
+  for (const [i, segment] of segments.entries()) {
+    const last = i === segments.length - 1;
+    const next: Partial<PathTarget>[] = [];
+    let missing: NameNotFoundError | null = null;
+    for (const target of targets) {
+      try {
+        next.push(
+          ...(await step(client, path, target, segment, last, options))
+        );
+      } catch (err) {
+        if (!fannedOut || !(err instanceof NameNotFoundError)) throw err;
+        missing ??= err;
+      }
+    }
+    if (missing && next.length === 0) throw missing;
+    targets = next;
+    fannedOut ||= segment.selector?.type === "all";
+  }
+
+  return new ResolvedPath(
+    client,
+    path,
+    targets.map((target) => {
+      if (!target.object) {
+        throw new PathError("Path does not lead to a Live object", path);
+      }
+      const isParameter = target.parameter !== undefined;
+      return {
+        path: target.path ?? "",
+        object: target.object,
+        parameter: target.parameter,
+        property: target.property ?? (isParameter ? "value" : null),
+      };
+    })
+  );
+}
+
+/**
+ * Apply one segment to one target, which may give several targets
+ */
+async function step(
+  client: OSCClient,
+  path: string,
+  target: Partial<PathTarget>,
+  segment: PathSegment,
+  last: boolean,
+  options?: FindOptions
+): Promise<Partial<PathTarget>[]> {
+  const { object, parameter } = target;
+  const { name, selector } = segment;
+  const prefix = target.path ? `${target.path}.` : "";
+
+  if (target.property) {
+    throw new PathError(`Unexpected "${name}" after a property`, path);
+  }
+
+  if (!object && (name === "song" || name === "master")) {
+    if (selector) {
+      throw new PathError(`"${name}" takes no index or name`, path);
+    }
+    return [
+      {
+        path: prefix + name,
+        object: name === "song" ? new Song(client) : new MasterTrack(client),
+      },
+    ];
+  }
+
+  if (!selector) {
+    if (!last) {
+      throw new PathError(`"${name}" needs an index, name or *`, path);
+    }
+    if (!object) {
+      throw new PathError(`Unknown root "${name}"`, path);
+    }
+    const property =
+      parameter !== undefined
+        ? PARAMETER_PROPERTIES.includes(name)
+          ? `parameter/${name}`
+          : null
+        : name;
+    const { scope } = addressOf(client, { object, parameter, property });
+    const known =
+      property !== null &&
+      (`${scope}/get/${property}` in ENDPOINTS ||
+        `${scope}/set/${property}` in ENDPOINTS);
+    if (!known) {
+      throw new PathError(`Unknown property "${name}"`, path);
+    }
+    return [{ ...target, path: prefix + name, property: name }];
+  }
+
+  const collection = await childrenOf(client, path, target, name, options);
+  const indices = select(
+    collection.what,
+    collection.names,
+    selector,
+    path,
+    options ?? {}
+  );
+  return indices.map((index) => ({
+    path: `${prefix}${name}[${index}]`,
+    ...collection.child(index),
+  }));
+}
+
+interface Children {
+  /** Singular noun for errors, e.g. "track" */
+  what: string;
+  /** Names by index; null where there is nothing (empty clip slots) */
+  names: (string | null)[];
+  child(index: number): Partial<PathTarget>;
+}
+
+async function childrenOf(
+  client: OSCClient,
+  path: string,
+  target: Partial<PathTarget>,
+  name: string,
+  options?: QueryOptions
+): Promise<Children> {
+  const { object } = target;
+
+  if (!object) {
+    switch (name) {
+      case "tracks":
+        return {
+          what: "track",
+          names: await requestEndpoint(
+            client,
+            "song/get/track_names",
+            [],
+            options
+          ),
+          child: (i) => ({ object: new Track(client, i) }),
+        };
+      case "returns":
+        return {
+          what: "return track",
+          names: await requestEndpoint(
+            client,
+            "song/get/return_tracks",
+            [],
+            options
+          ),
+          child: (i) => ({ object: new ReturnTrack(client, i) }),
+        };
+      case "scenes":
+        return {
+          what: "scene",
+          names: await requestEndpoint(
+            client,
+            "song/get/scene_names",
+            [],
+            options
+          ),
+          child: (i) => ({ object: new Scene(client, i) }),
+        };
+    }
+  } else if (target.parameter === undefined) {
+    const track =
+      object instanceof Track ||
+      object instanceof ReturnTrack ||
+      object instanceof MasterTrack
+        ? object
+        : null;
+    if (track && name === "devices") {
+      return {
+        what: "device",
+        names: await track.getDeviceNames(options),
+        child: (i) => ({ object: track.getDevice(i) }),
+      };
+    }
+    if (object instanceof Track && name === "clips") {
+      return {
+        what: "clip",
+        names: await object.getClipNames(options),
+        child: (i) => ({ object: object.getClip(i) }),
+      };
+    }
+    if (object instanceof Track && name === "clip_slots") {
+      // Slots have no names of their own; they are addressed by index
+      const count = await requestEndpoint(
+        client,
+        "song/get/num_scenes",
+        [],
+        options
+      );
+      return {
+        what: "clip slot",
+        names: Array.from({ length: count }, () => ""),
+        child: (i) => ({ object: object.getClipSlot(i) }),
+      };
+    }
+    if (object instanceof Device && name === "parameters") {
+      return {
+        what: "parameter",
+        names: await object.getParameterNames(options),
+        child: (i) => ({ object, parameter: i }),
+      };
+    }
+  }
+
+  throw new PathError(
+    `Unknown collection "${name}"${target.path ? ` on ${target.path}` : ""}`,
+    path
+  );
+}
+
+function select(
+  what: string,
+  names: (string | null)[],
+  selector: PathSelector,
+  path: string,
+  options: FindOptions
+): number[] {
+  switch (selector.type) {
+    case "index":
+      if (selector.index >= names.length) {
+        throw new PathError(
+          `No ${what} at index ${selector.index} (${names.length} in total)`,
+          path
+        );
+      }
+      return [selector.index];
+    case "name":
+      if (what === "clip slot") {
+        throw new PathError("Clip slots can only be addressed by index", path);
+      }
+      return [findByName(what, names, selector.name, options)];
+    case "all":
+      return names.flatMap((name, i) => (name === null ? [] : [i]));
+  }
+}
+
+/**
+ * Endpoint scope, index arguments and track kind of a target's property
+ */
+function addressOf(
+  client: OSCClient,
+  target: Pick<PathTarget, "object" | "parameter" | "property">
+): {
+  scope: string;
+  ids: ListenId[];
+  kind: TrackKind;
+} {
+  const { object, parameter, property } = target;
+  // The shared slots of the objects, so listens follow them when they move
+  const handles = HandleRegistry.for(client);
+  if (object instanceof Song) return { scope: "song", ids: [], kind: "track" };
+  if (object instanceof MasterTrack) {
+    // Properties only the master track has are in its own address space
+    if (
+      `master_track/get/${property}` in ENDPOINTS ||
+      `master_track/set/${property}` in ENDPOINTS
+    ) {
+      return { scope: "master_track", ids: [], kind: "track" };
+    }
+    return { scope: "track", ids: [0], kind: object.kind };
+  }
+  if (object instanceof ReturnTrack) {
+    return { scope: "track", ids: [object.id], kind: object.kind };
+  }
+  if (object instanceof Track) {
+    return {
+      scope: "track",
+      ids: [handles.slot("track", object.id)],
+      kind: object.kind,
+    };
+  }
+  if (object instanceof Scene) {
+    return {
+      scope: "scene",
+      ids: [handles.slot("scene", object.id)],
+      kind: "track",
+    };
+  }
+  if (object instanceof ClipSlot || object instanceof Clip) {
+    return {
+      scope: object instanceof Clip ? "clip" : "clip_slot",
+      ids: [
+        handles.slot("track", object.trackId),
+        handles.slot("scene", object.id),
+      ],
+      kind: "track",
+    };
+  }
+  const ids: ListenId[] = [
+    object.kind === "track"
+      ? handles.slot("track", object.trackId)
+      : object.trackId,
+    object.id,
+  ];
+  if (parameter !== undefined) ids.push(parameter);
+  return { scope: "device", ids, kind: object.kind };
+}
+
+/**
+ * The targets of a resolved path, read, set and watched together
+ */
+export class ResolvedPath {
+  private client: OSCClient;
+  /** The path as given */
+  readonly path: string;
+  readonly targets: PathTarget[];
+
+  constructor(client: OSCClient, path: string, targets: PathTarget[]) {
+    this.client = client;
+    this.path = path;
+    this.targets = targets;
+  }
+
+  /**
+   * Read the property of every target, in target order
+   */
+  async get(options?: QueryOptions): Promise<unknown[]> {
+    const requests = this.targets.map((target) =>
+      this.argsOf(target, "get", [])
+    );
+    return Promise.all(
+      requests.map(({ endpoint, args, kind }) =>
+        requestEndpoint(
+          this.client,
+          endpoint as QueryEndpoint,
+          args as EndpointArgs<QueryEndpoint>,
+          options,
+          kind
+        )
+      )
+    );
+  }
+
+  /**
+   * Set the property of every target to `value`. Throws PathError, before
+   * anything is sent, when the value does not fit the property.
+   */
+  async set(value: unknown): Promise<void> {
+    const sets = this.targets.map((target) =>
+      this.argsOf(target, "set", [value])
+    );
+    for (const { endpoint, args, kind } of sets) {
+      sendEndpoint(
+        this.client,
+        endpoint as SendEndpoint,
+        args as EndpointArgs<SendEndpoint>,
+        kind
+      );
+    }
+  }
+
+  /**
+   * Call `handler` with the current value of every target and on every
+   * change. Returns a function that removes the handler from all targets.
+   */
+  on(handler: (value: unknown, target: PathTarget) => void): () => void {
+    const registry = ListenerRegistry.for(this.client);
+    const removers = this.targets.map((target) => {
+      const { endpoint, ids, kind } = this.endpointOf(target, "get");
+      const callback: ListenerCallback = (value) => handler(value, target);
+      return registry.listen(endpoint as QueryEndpoint, ids, callback, kind);
+    });
+    return () => removers.forEach((remove) => remove());
+  }
+
+  /**
+   * Every target's current value, then every change, as an async iterator.
+   * The listens are removed when the loop exits.
+   */
+  watch(options?: WatchOptions<PathChange>): AsyncIterableIterator<PathChange> {
+    return iterate(
+      (cb) => this.on((value, target) => cb({ path: target.path, value })),
+      options
+    );
+  }
+
+  /**
+   * Endpoint and arguments for a target, checked against the endpoint
+   */
+  private argsOf(
+    target: PathTarget,
+    verb: "get" | "set",
+    values: unknown[]
+  ): { endpoint: Endpoint; args: unknown[]; kind: TrackKind } {
+    const { endpoint, ids, kind } = this.endpointOf(target, verb);
+    const args = [...ids.map(indexOf), ...values];
+    const mismatch = checkEndpointArgs(endpoint, args);
+    if (mismatch !== null) {
+      throw new PathError(
+        `Cannot ${verb} ${target.path}: ${mismatch}`,
+        this.path
+      );
+    }
+    return { endpoint, args, kind };
+  }
+
+  private endpointOf(
+    target: PathTarget,
+    verb: "get" | "set"
+  ): { endpoint: Endpoint; ids: ListenId[]; kind: TrackKind } {
+    if (target.property === null) {
+      throw new PathError(
+        `${target.path} has no property to ${verb}`,
+        this.path
+      );
+    }
+    const { scope, ids, kind } = addressOf(this.client, target);
+    const property =
+      target.parameter !== undefined
+        ? `parameter/${target.property}`
+        : target.property;
+    const endpoint = `${scope}/${verb}/${property}`;
+    if (!(endpoint in ENDPOINTS)) {
+      throw new PathError(
+        `${target.path} cannot be ${verb === "get" ? "read" : "set"}`,
+        this.path
+      );
+    }
+    return { endpoint: endpoint as Endpoint, ids, kind };
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * OSC 1.0 address pattern matching
+ *
+ * `?` matches one character, `*` any run of characters, `[a-z]` / `[!abc]`
+ * a character from (or not from) a set, and `{foo,bar}` one of several
+ * strings. No wildcard matches across a `/`.
+ */
+
+const cache: Map<string, RegExp> = new Map();
+
+/**
+ * Compile an OSC address pattern to a regular expression
+ */
+export function compileOSCPattern(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    switch (ch) {
+      case "?":
+        source += "[^/]";
+        i++;
+        break;
+      case "*":
+        source += "[^/]*";
+        i++;
+        break;
+      case "[": {
+        const end = pattern.indexOf("]", i + 1);
+        if (end === -1) {
+          throw new Error(`Unclosed [ in OSC pattern: ${pattern}`);
+        }
+        let body = pattern.slice(i + 1, end);
+        const negate = body.startsWith("!");
+        if (negate) {
+          body = body.slice(1);
+        }
+        // Escape everything but ranges; a leading or trailing - is literal
+        const set = body
+          .split("")
+          .map((c, j) =>
+            c === "-" && j > 0 && j < body.length - 1 ? "-" : escapeClass(c)
+          )
+          .join("");
+        source += negate ? `[^/${set}]` : `[${set}]`;
+        i = end + 1;
+        break;
+      }
+      case "{": {
+        const end = pattern.indexOf("}", i + 1);
+        if (end === -1) {
+          throw new Error(`Unclosed { in OSC pattern: ${pattern}`);
+        }
+        const options = pattern
+          .slice(i + 1, end)
+          .split(",")
+          .map(escapeRegExp);
+        source += `(?:${options.join("|")})`;
+        i = end + 1;
+        break;
+      }
+      default:
+        source += escapeRegExp(ch);
+        i++;
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Whether an address matches an OSC address pattern
+ */
+export function matchOSCAddress(pattern: string, address: string): boolean {
+  return compileOSCPattern(pattern).test(address);
+}
+
+/**
+ * Whether a string contains OSC pattern characters
+ */
+export function isOSCPattern(value: string): boolean {
+  return /[?*[\]{}]/.test(value);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function escapeClass(c: string): string {
+  return /[\\\]^-]/.test(c) ? `\\${c}` : c;
+}
@@ -0,0 +1,222 @@
+/**
+ * ReturnTrack class - represents a return track in the Live Set
+ */
+
+import { OSCClient, type QueryOptions } from "./osc.js";
+import { Device } from "./device.js";
+import { findByName, type FindOptions, type NameQuery } from "./lookup.js";
+import {
+  requestEndpoint,
+  sendEndpoint,
+  type EndpointResult,
+} from "./schema.js";
+import {
+  iterate,
+  ListenerRegistry,
+  type ListenerCallback,
+  type WatchOptions,
+} from "./listeners.js";
+import type { MixerEvent, MixerTrack } from "./track.js";
+
+/** Return track properties that can be observed with `on()` */
+export type ReturnTrackEvent = MixerEvent | "mute" | "solo";
+
+export type ReturnTrackEvents = {
+  [K in ReturnTrackEvent]: EndpointResult<`track/get/${K}`>;
+};
+
+export class ReturnTrack implements MixerTrack {
+  private client: OSCClient;
+  readonly id: number;
+  readonly kind = "return_track";
+
+  constructor(client: OSCClient, returnId: number) {
+    this.client = client;
+    this.id = returnId;
+  }
+
+  // ============ Getters ============
+
+  async getName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "track/get/name",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  async getColor(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/color",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  async getMute(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/mute",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  async getSolo(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/solo",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  async getVolume(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/volume",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  async getPanning(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/panning",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  /**
+   * Get the output meter level (for visualization)
+   */
+  async getOutputMeterLevel(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/output_meter_level",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  // ============ Setters ============
+
+  async setName(name: string): Promise<void> {
+    sendEndpoint(this.client, "track/set/name", [this.id, name], this.kind);
+  }
+
+  async setColor(color: number): Promise<void> {
+    sendEndpoint(this.client, "track/set/color", [this.id, color], this.kind);
+  }
+
+  async setMute(mute: boolean): Promise<void> {
+    sendEndpoint(this.client, "track/set/mute", [this.id, mute], this.kind);
+  }
+
+  async setSolo(solo: boolean): Promise<void> {
+    sendEndpoint(this.client, "track/set/solo", [this.id, solo], this.kind);
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    sendEndpoint(this.client, "track/set/volume", [this.id, volume], this.kind);
+  }
+
+  async setPanning(panning: number): Promise<void> {
+    sendEndpoint(
+      this.client,
+      "track/set/panning",
+      [this.id, panning],
+      this.kind
+    );
+  }
+
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a property and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on<K extends ReturnTrackEvent>(
+    event: K,
+    handler: (value: ReturnTrackEvents[K]) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `track/get/${event as ReturnTrackEvent}`,
+      [this.id],
+      handler as ListenerCallback,
+      this.kind
+    );
+  }
+
+  /**
+   * Remove a handler added with `on()`
+   */
+  off<K extends ReturnTrackEvent>(
+    event: K,
+    handler: (value: ReturnTrackEvents[K]) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `track/get/${event as ReturnTrackEvent}`,
+      [this.id],
+      handler as ListenerCallback,
+      this.kind
+    );
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   */
+  watch<K extends ReturnTrackEvent>(
+    event: K,
+    options?: WatchOptions<ReturnTrackEvents[K]>
+  ): AsyncIterableIterator<ReturnTrackEvents[K]> {
+    return iterate((cb) => this.on(event, cb), options);
+  }
+
+  // ============ Devices ============
+
+  getDevice(deviceId: number): Device {
+    return new Device(this.client, this.id, deviceId, this.kind);
+  }
+
+  async getDeviceNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/devices/name",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  async getNumDevices(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/num_devices",
+      [this.id],
+      options,
+      this.kind
+    );
+  }
+
+  /**
+   * Get the device with a matching name
+   */
+  async findDevice(query: NameQuery, options?: FindOptions): Promise<Device> {
+    const names = await this.getDeviceNames(options);
+    return this.getDevice(findByName("device", names, query, options));
+  }
+}
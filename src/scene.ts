@@ -2,66 +2,101 @@
  * Scene class - represents a scene (row) in the Session View
  */
 
-import { OSCClient } from "./osc.js";
+import { OSCClient, type QueryOptions } from "./osc.js";
+import {
+  requestEndpoint,
+  sendEndpoint,
+  type EndpointResult,
+} from "./schema.js";
+import {
+  iterate,
+  ListenerRegistry,
+  type ListenerCallback,
+  type WatchOptions,
+} from "./listeners.js";
+import { HandleRegistry, type IndexSlot } from "./handles.js";
+
+/** Scene properties that can be observed with `on()` */
+export type SceneEvent = "is_triggered";
+
+export type SceneEvents = {
+  [K in SceneEvent]: EndpointResult<`scene/get/${K}`>;
+};
 
 export class Scene {
   private client: OSCClient;
-  readonly id: number;
+  private slot: IndexSlot;
 
   constructor(client: OSCClient, sceneId: number) {
     this.client = client;
-    this.id = sceneId;
+    this.slot = HandleRegistry.for(client).slot("scene", sceneId);
+  }
+
+  /**
+   * Current index of the scene. Follows scenes inserted and deleted before
+   * it; throws StaleHandleError once the scene itself was deleted.
+   */
+  get id(): number {
+    return this.slot.index;
+  }
+
+  /** Whether the scene was deleted */
+  get stale(): boolean {
+    return this.slot.stale;
   }
 
   // ============ Transport ============
 
   fire(): void {
-    this.client.send("/live/scene/fire", this.id);
+    sendEndpoint(this.client, "scene/fire", [this.id]);
   }
 
   /**
    * Fire the scene as if it were selected (follows the selected scene behavior)
    */
   fireAsSelected(): void {
-    this.client.send("/live/scene/fire_as_selected", this.id);
+    sendEndpoint(this.client, "scene/fire_as_selected", [this.id]);
   }
 
   // ============ Getters ============
 
-  async getName(): Promise<string> {
-    const res = await this.client.query("/live/scene/get/name", this.id);
-    return res.args[1] as string;
+  async getName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(this.client, "scene/get/name", [this.id], options);
   }
 
-  async getColor(): Promise<number> {
-    const res = await this.client.query("/live/scene/get/color", this.id);
-    return res.args[1] as number;
+  async getColor(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "scene/get/color", [this.id], options);
   }
 
-  async getColorIndex(): Promise<number> {
-    const res = await this.client.query("/live/scene/get/color_index", this.id);
-    return res.args[1] as number;
+  async getColorIndex(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/color_index",
+      [this.id],
+      options
+    );
   }
 
-  async getTempo(): Promise<number> {
-    const res = await this.client.query("/live/scene/get/tempo", this.id);
-    return res.args[1] as number;
+  async getTempo(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "scene/get/tempo", [this.id], options);
   }
 
-  async getTimeSignatureNumerator(): Promise<number> {
-    const res = await this.client.query(
-      "/live/scene/get/time_signature_numerator",
-      this.id
+  async getTimeSignatureNumerator(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/time_signature_numerator",
+      [this.id],
+      options
     );
-    return res.args[1] as number;
   }
 
-  async getTimeSignatureDenominator(): Promise<number> {
-    const res = await this.client.query(
-      "/live/scene/get/time_signature_denominator",
-      this.id
+  async getTimeSignatureDenominator(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/time_signature_denominator",
+      [this.id],
+      options
     );
-    return res.args[1] as number;
   }
 
   // ============ New Getters ============
@@ -69,60 +104,110 @@ export class Scene {
   /**
    * Check if the scene has no clips
    */
-  async getIsEmpty(): Promise<boolean> {
-    const res = await this.client.query("/live/scene/get/is_empty", this.id);
-    return res.args[1] as boolean;
+  async getIsEmpty(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/is_empty",
+      [this.id],
+      options
+    );
   }
 
   /**
    * Check if the scene is triggered (about to play)
    */
-  async getIsTriggered(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/scene/get/is_triggered",
-      this.id
+  async getIsTriggered(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/is_triggered",
+      [this.id],
+      options
     );
-    return res.args[1] as boolean;
   }
 
   /**
    * Check if tempo is enabled for this scene
    */
-  async getTempoEnabled(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/scene/get/tempo_enabled",
-      this.id
+  async getTempoEnabled(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/tempo_enabled",
+      [this.id],
+      options
     );
-    return res.args[1] as boolean;
   }
 
   /**
    * Check if time signature is enabled for this scene
    */
-  async getTimeSignatureEnabled(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/scene/get/time_signature_enabled",
-      this.id
+  async getTimeSignatureEnabled(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "scene/get/time_signature_enabled",
+      [this.id],
+      options
+    );
+  }
+
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a property and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on<K extends SceneEvent>(
+    event: K,
+    handler: (value: SceneEvents[K]) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `scene/get/${event as SceneEvent}`,
+      [this.slot],
+      handler as ListenerCallback
+    );
+  }
+
+  /**
+   * Remove a handler added with `on()`
+   */
+  off<K extends SceneEvent>(
+    event: K,
+    handler: (value: SceneEvents[K]) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `scene/get/${event as SceneEvent}`,
+      [this.slot],
+      handler as ListenerCallback
     );
-    return res.args[1] as boolean;
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   */
+  watch<K extends SceneEvent>(
+    event: K,
+    options?: WatchOptions<SceneEvents[K]>
+  ): AsyncIterableIterator<SceneEvents[K]> {
+    return iterate((cb) => this.on(event, cb), options);
   }
 
   // ============ Setters ============
 
   async setName(name: string): Promise<void> {
-    this.client.send("/live/scene/set/name", this.id, name);
+    sendEndpoint(this.client, "scene/set/name", [this.id, name]);
   }
 
   async setColor(color: number): Promise<void> {
-    this.client.send("/live/scene/set/color", this.id, color);
+    sendEndpoint(this.client, "scene/set/color", [this.id, color]);
   }
 
   async setColorIndex(colorIndex: number): Promise<void> {
-    this.client.send("/live/scene/set/color_index", this.id, colorIndex);
+    sendEndpoint(this.client, "scene/set/color_index", [this.id, colorIndex]);
   }
 
   async setTempo(tempo: number): Promise<void> {
-    this.client.send("/live/scene/set/tempo", this.id, tempo);
+    sendEndpoint(this.client, "scene/set/tempo", [this.id, tempo]);
   }
 
   // ============ New Setters ============
@@ -131,17 +216,16 @@ export class Scene {
    * Enable or disable tempo for this scene
    */
   async setTempoEnabled(enabled: boolean): Promise<void> {
-    this.client.send("/live/scene/set/tempo_enabled", this.id, enabled ? 1 : 0);
+    sendEndpoint(this.client, "scene/set/tempo_enabled", [this.id, enabled]);
   }
 
   /**
    * Enable or disable time signature for this scene
    */
   async setTimeSignatureEnabled(enabled: boolean): Promise<void> {
-    this.client.send(
-      "/live/scene/set/time_signature_enabled",
+    sendEndpoint(this.client, "scene/set/time_signature_enabled", [
       this.id,
-      enabled ? 1 : 0
-    );
+      enabled,
+    ]);
   }
 }
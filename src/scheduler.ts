@@ -0,0 +1,157 @@
+/**
+ * Outgoing send queue with rate limiting and value coalescing
+ */
+
+export interface SendSchedulerOptions {
+  /** Maximum packets sent per second */
+  messagesPerSecond: number;
+  /**
+   * Replace a queued set to the same address and target with the latest
+   * value instead of queueing another packet; the set moves to the end of
+   * the queue so it still follows packets queued before it (default: true)
+   */
+  coalesce?: boolean;
+}
+
+export interface SendQueueMetrics {
+  /** Packets waiting to be sent */
+  depth: number;
+  /** Highest depth seen since the scheduler was created */
+  peakDepth: number;
+  /** Packets written to the transport */
+  sent: number;
+  /** Queued values replaced by a newer one */
+  coalesced: number;
+}
+
+interface QueuedPacket {
+  data: Buffer;
+  key?: string;
+}
+
+/**
+ * Drains packets to the transport in order, at most `messagesPerSecond`.
+ * Packets with a coalescing key (sets) replace an already queued packet with
+ * the same key, which is moved to the end of the queue.
+ */
+export class SendScheduler {
+  private interval: number;
+  private coalesce: boolean;
+  private write: (data: Buffer) => void;
+  private onError: (err: Error) => void;
+  private queue: QueuedPacket[] = [];
+  private byKey: Map<string, QueuedPacket> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private lastSent = 0;
+  private peakDepth = 0;
+  private sent = 0;
+  private coalesced = 0;
+
+  constructor(
+    options: SendSchedulerOptions,
+    write: (data: Buffer) => void,
+    onError: (err: Error) => void
+  ) {
+    if (!(options.messagesPerSecond > 0)) {
+      throw new Error("messagesPerSecond must be greater than 0");
+    }
+    this.interval = 1000 / options.messagesPerSecond;
+    this.coalesce = options.coalesce ?? true;
+    this.write = write;
+    this.onError = onError;
+  }
+
+  get depth(): number {
+    return this.queue.length;
+  }
+
+  get metrics(): SendQueueMetrics {
+    return {
+      depth: this.queue.length,
+      peakDepth: this.peakDepth,
+      sent: this.sent,
+      coalesced: this.coalesced,
+    };
+  }
+
+  /**
+   * Queue a packet; `key` identifies the address and target of a set
+   */
+  enqueue(data: Buffer, key?: string): void {
+    if (key !== undefined && this.coalesce) {
+      const queued = this.byKey.get(key);
+      if (queued) {
+        // Moved to the end, so it never reaches Live before packets that
+        // were queued after the value it replaces
+        this.queue.splice(this.queue.indexOf(queued), 1);
+        queued.data = data;
+        this.queue.push(queued);
+        this.coalesced++;
+        return;
+      }
+    }
+
+    const packet: QueuedPacket = { data, key };
+    this.queue.push(packet);
+    if (key !== undefined && this.coalesce) {
+      this.byKey.set(key, packet);
+    }
+    this.peakDepth = Math.max(this.peakDepth, this.queue.length);
+    this.schedule();
+  }
+
+  /**
+   * Send everything queued right away, in order
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.queue.length > 0) {
+      this.sendNext();
+    }
+  }
+
+  /**
+   * Drop everything queued
+   */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.queue = [];
+    this.byKey.clear();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) {
+      return;
+    }
+    const wait = Math.max(0, this.lastSent + this.interval - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sendNext();
+      this.schedule();
+    }, wait);
+  }
+
+  private sendNext(): void {
+    const packet = this.queue.shift();
+    if (!packet) {
+      return;
+    }
+    if (packet.key !== undefined && this.byKey.get(packet.key) === packet) {
+      this.byKey.delete(packet.key);
+    }
+
+    this.lastSent = Date.now();
+    try {
+      this.write(packet.data);
+      this.sent++;
+    } catch (err) {
+      this.onError(err as Error);
+    }
+  }
+}
@@ -0,0 +1,684 @@
+/**
+ * Typed registry of AbletonOSC endpoints
+ *
+ * Each entry describes an address (without the `/live/` prefix): the index
+ * arguments it takes and echoes back, its further arguments, and the shape
+ * of its reply. The classes and `Ableton.call()` go through this registry,
+ * so arguments are encoded and replies checked in one place.
+ */
+
+import { ProtocolError } from "./errors.js";
+import {
+  float,
+  type OSCArgument,
+  type OSCClient,
+  type OSCMessage,
+  type OSCValue,
+  type QueryOptions,
+} from "./osc.js";
+
+/**
+ * Argument and reply value types
+ *
+ * - `int`, `float`: numbers; floats are always sent with the `f` tag
+ * - `bool`: sent as 1/0; replies may be true/false or 1/0
+ * - `flag`: boolean sent as OSC true/false
+ * - `string`, `string?` (string or nil), `int|string`
+ */
+export type ValueType =
+  | "int"
+  | "float"
+  | "bool"
+  | "flag"
+  | "string"
+  | "string?"
+  | "int|string";
+
+export type ReplySpec =
+  | ValueType
+  | { list: ValueType }
+  | { tuple: readonly ValueType[] }
+  | { groups: readonly ValueType[] };
+
+export interface EndpointSpec {
+  /** Names of the index arguments, echoed at the start of the reply */
+  index?: readonly string[];
+  /** Required arguments after the index arguments */
+  args?: readonly ValueType[];
+  /** Arguments that may be left off */
+  optional?: readonly ValueType[];
+  /** Repeating group of arguments, e.g. one group per note */
+  rest?: readonly ValueType[];
+  /** Reply after the echoed index arguments; endpoints without one are sent */
+  reply?: ReplySpec;
+}
+
+const TRACK = ["track"] as const;
+const SEND = ["track", "send"] as const;
+const SLOT = ["track", "slot"] as const;
+const CLIP = ["track", "clip"] as const;
+const DEVICE = ["track", "device"] as const;
+const PARAMETER = ["track", "device", "parameter"] as const;
+const SCENE = ["scene"] as const;
+
+export const ENDPOINTS = {
+  // ============ Application ============
+  "application/get/version": { reply: { tuple: ["int", "int"] } },
+  "api/show_message": { args: ["string"] },
+
+  // ============ Song ============
+  "song/get/arrangement_overdub": { reply: "bool" },
+  "song/get/back_to_arranger": { reply: "bool" },
+  // Only sent while listening to beats; Live cannot be asked for it
+  "song/get/beat": { reply: "int" },
+  "song/get/can_redo": { reply: "bool" },
+  "song/get/can_undo": { reply: "bool" },
+  "song/get/clip_trigger_quantization": { reply: "int" },
+  "song/get/cue_points": { reply: { groups: ["int", "string", "float"] } },
+  "song/get/current_song_time": { reply: "float" },
+  "song/get/groove_amount": { reply: "float" },
+  "song/get/is_playing": { reply: "bool" },
+  "song/get/loop": { reply: "bool" },
+  "song/get/loop_length": { reply: "float" },
+  "song/get/loop_start": { reply: "float" },
+  "song/get/metronome": { reply: "bool" },
+  "song/get/midi_recording_quantization": { reply: "int" },
+  "song/get/nudge_down": { reply: "bool" },
+  "song/get/nudge_up": { reply: "bool" },
+  "song/get/num_scenes": { reply: "int" },
+  "song/get/num_tracks": { reply: "int" },
+  "song/get/punch_in": { reply: "bool" },
+  "song/get/punch_out": { reply: "bool" },
+  "song/get/record_mode": { reply: "int" },
+  "song/get/return_tracks": { reply: { list: "string" } },
+  "song/get/root_note": { reply: "int" },
+  "song/get/scale_name": { reply: "string" },
+  "song/get/scene_names": { reply: { list: "string" } },
+  "song/get/session_record": { reply: "bool" },
+  "song/get/session_record_status": { reply: "int" },
+  "song/get/signature_denominator": { reply: "int" },
+  "song/get/signature_numerator": { reply: "int" },
+  "song/get/song_length": { reply: "float" },
+  "song/get/tempo": { reply: "float" },
+  "song/get/track_names": { reply: { list: "string" } },
+  "song/cue_point/set/name": { args: ["int", "string"] },
+  "song/set/arrangement_overdub": { args: ["bool"] },
+  "song/set/back_to_arranger": { args: ["bool"] },
+  "song/set/clip_trigger_quantization": { args: ["int"] },
+  "song/set/groove_amount": { args: ["float"] },
+  "song/set/loop": { args: ["bool"] },
+  "song/set/loop_length": { args: ["float"] },
+  "song/set/loop_start": { args: ["float"] },
+  "song/set/metronome": { args: ["bool"] },
+  "song/set/midi_recording_quantization": { args: ["int"] },
+  "song/set/nudge_down": { args: ["bool"] },
+  "song/set/nudge_up": { args: ["bool"] },
+  "song/set/punch_in": { args: ["bool"] },
+  "song/set/punch_out": { args: ["bool"] },
+  "song/set/record_mode": { args: ["int"] },
+  "song/set/root_note": { args: ["int"] },
+  "song/set/scale_name": { args: ["string"] },
+  "song/set/session_record": { args: ["bool"] },
+  "song/set/signature_denominator": { args: ["int"] },
+  "song/set/signature_numerator": { args: ["int"] },
+  "song/set/tempo": { args: ["float"] },
+  "song/capture_midi": {},
+  "song/continue_playing": {},
+  "song/create_audio_track": { args: ["int"] },
+  "song/create_midi_track": { args: ["int"] },
+  "song/create_scene": { args: ["int"] },
+  "song/cue_point/add_or_delete": { args: ["float"] },
+  "song/cue_point/jump": { args: ["int|string"] },
+  "song/delete_scene": { args: ["int"] },
+  "song/delete_track": { args: ["int"] },
+  "song/duplicate_scene": { args: ["int"] },
+  "song/duplicate_track": { args: ["int"] },
+  "song/jump_by": { args: ["float"] },
+  "song/jump_to_next_cue": {},
+  "song/jump_to_prev_cue": {},
+  "song/redo": {},
+  "song/start_listen/beat": {},
+  "song/start_playing": {},
+  "song/stop_all_clips": {},
+  "song/stop_listen/beat": {},
+  "song/stop_playing": {},
+  "song/tap_tempo": {},
+  "song/trigger_session_record": {},
+  "song/undo": {},
+
+  // ============ View ============
+  "view/get/selected_scene": { reply: "int" },
+  "view/get/selected_track": { reply: "int" },
+  "view/set/selected_scene": { args: ["int"] },
+  "view/set/selected_track": { args: ["int"] },
+
+  // ============ Track ============
+  "track/get/arm": { index: TRACK, reply: "bool" },
+  "track/get/arrangement_clips": {
+    index: TRACK,
+    reply: { groups: ["float", "float", "string", "int"] },
+  },
+  "track/get/available_input_routing_channels": {
+    index: TRACK,
+    reply: { list: "string" },
+  },
+  "track/get/available_input_routing_types": {
+    index: TRACK,
+    reply: { list: "string" },
+  },
+  "track/get/available_output_routing_channels": {
+    index: TRACK,
+    reply: { list: "string" },
+  },
+  "track/get/available_output_routing_types": {
+    index: TRACK,
+    reply: { list: "string" },
+  },
+  "track/get/clips/name": { index: TRACK, reply: { list: "string?" } },
+  "track/get/color": { index: TRACK, reply: "int" },
+  "track/get/color_index": { index: TRACK, reply: "int" },
+  "track/get/current_monitoring_state": { index: TRACK, reply: "int" },
+  "track/get/devices/name": { index: TRACK, reply: { list: "string" } },
+  "track/get/fired_slot_index": { index: TRACK, reply: "int" },
+  "track/get/fold_state": { index: TRACK, reply: "bool" },
+  // Index of the group track the track is in, or -1 at the top level
+  "track/get/group_track": { index: TRACK, reply: "int" },
+  "track/get/has_audio_input": { index: TRACK, reply: "bool" },
+  "track/get/has_audio_output": { index: TRACK, reply: "bool" },
+  "track/get/has_midi_input": { index: TRACK, reply: "bool" },
+  "track/get/has_midi_output": { index: TRACK, reply: "bool" },
+  "track/get/input_routing_channel": { index: TRACK, reply: "string" },
+  "track/get/input_routing_type": { index: TRACK, reply: "string" },
+  "track/get/is_foldable": { index: TRACK, reply: "bool" },
+  "track/get/is_grouped": { index: TRACK, reply: "bool" },
+  "track/get/is_visible": { index: TRACK, reply: "bool" },
+  "track/get/mute": { index: TRACK, reply: "bool" },
+  "track/get/name": { index: TRACK, reply: "string" },
+  "track/get/num_devices": { index: TRACK, reply: "int" },
+  "track/get/output_meter_level": { index: TRACK, reply: "float" },
+  "track/get/output_routing_channel": { index: TRACK, reply: "string" },
+  "track/get/output_routing_type": { index: TRACK, reply: "string" },
+  "track/get/panning": { index: TRACK, reply: "float" },
+  "track/get/playing_slot_index": { index: TRACK, reply: "int" },
+  "track/get/send": { index: SEND, reply: "float" },
+  "track/get/solo": { index: TRACK, reply: "bool" },
+  "track/get/volume": { index: TRACK, reply: "float" },
+  "track/set/arm": { index: TRACK, args: ["bool"] },
+  "track/set/color": { index: TRACK, args: ["int"] },
+  "track/set/color_index": { index: TRACK, args: ["int"] },
+  "track/set/current_monitoring_state": { index: TRACK, args: ["int"] },
+  "track/set/fold_state": { index: TRACK, args: ["bool"] },
+  "track/set/input_routing_channel": { index: TRACK, args: ["string"] },
+  "track/set/input_routing_type": { index: TRACK, args: ["string"] },
+  "track/set/mute": { index: TRACK, args: ["bool"] },
+  "track/set/name": { index: TRACK, args: ["string"] },
+  "track/set/output_routing_channel": { index: TRACK, args: ["string"] },
+  "track/set/output_routing_type": { index: TRACK, args: ["string"] },
+  "track/set/panning": { index: TRACK, args: ["float"] },
+  "track/set/send": { index: SEND, args: ["float"] },
+  "track/set/solo": { index: TRACK, args: ["bool"] },
+  "track/set/volume": { index: TRACK, args: ["float"] },
+  "track/stop_all_clips": { index: TRACK },
+
+  // ============ Master Track ============
+  // Track and device endpoints are routed to return and master tracks too,
+  // see routeEndpoint(); these exist on the master track only
+  "master_track/get/cue_volume": { reply: "float" },
+  "master_track/set/cue_volume": { args: ["float"] },
+
+  // ============ Clip Slot ============
+  "clip_slot/get/has_clip": { index: SLOT, reply: "bool" },
+  "clip_slot/get/has_stop_button": { index: SLOT, reply: "bool" },
+  "clip_slot/get/is_playing": { index: SLOT, reply: "bool" },
+  "clip_slot/get/is_recording": { index: SLOT, reply: "bool" },
+  "clip_slot/get/is_triggered": { index: SLOT, reply: "bool" },
+  "clip_slot/set/has_stop_button": { index: SLOT, args: ["bool"] },
+  "clip_slot/create_clip": { index: SLOT, args: ["float"] },
+  "clip_slot/delete_clip": { index: SLOT },
+  "clip_slot/duplicate_clip_to": { index: SLOT, args: ["int", "int"] },
+  "clip_slot/fire": { index: SLOT },
+
+  // ============ Clip ============
+  "clip/get/color": { index: CLIP, reply: "int" },
+  "clip/get/color_index": { index: CLIP, reply: "int" },
+  "clip/get/end_marker": { index: CLIP, reply: "float" },
+  "clip/get/file_path": { index: CLIP, reply: "string" },
+  "clip/get/gain": { index: CLIP, reply: "float" },
+  "clip/get/has_groove": { index: CLIP, reply: "bool" },
+  "clip/get/is_audio_clip": { index: CLIP, reply: "bool" },
+  "clip/get/is_midi_clip": { index: CLIP, reply: "bool" },
+  "clip/get/is_overdubbing": { index: CLIP, reply: "bool" },
+  "clip/get/is_playing": { index: CLIP, reply: "bool" },
+  "clip/get/is_recording": { index: CLIP, reply: "bool" },
+  "clip/get/launch_mode": { index: CLIP, reply: "int" },
+  "clip/get/launch_quantization": { index: CLIP, reply: "int" },
+  "clip/get/legato": { index: CLIP, reply: "bool" },
+  "clip/get/length": { index: CLIP, reply: "float" },
+  "clip/get/loop_end": { index: CLIP, reply: "float" },
+  "clip/get/loop_start": { index: CLIP, reply: "float" },
+  "clip/get/looping": { index: CLIP, reply: "bool" },
+  "clip/get/muted": { index: CLIP, reply: "bool" },
+  "clip/get/name": { index: CLIP, reply: "string" },
+  "clip/get/notes": {
+    index: CLIP,
+    optional: ["int", "int", "float", "float"],
+    reply: { groups: ["int", "float", "float", "float", "bool"] },
+  },
+  "clip/get/pitch_coarse": { index: CLIP, reply: "int" },
+  "clip/get/pitch_fine": { index: CLIP, reply: "float" },
+  "clip/get/playing_position": { index: CLIP, reply: "float" },
+  "clip/get/position": { index: CLIP, reply: "float" },
+  "clip/get/ram_mode": { index: CLIP, reply: "bool" },
+  "clip/get/sample_length": { index: CLIP, reply: "float" },
+  "clip/get/start_marker": { index: CLIP, reply: "float" },
+  "clip/get/start_time": { index: CLIP, reply: "float" },
+  "clip/get/velocity_amount": { index: CLIP, reply: "float" },
+  "clip/get/warp_mode": { index: CLIP, reply: "int" },
+  "clip/get/warping": { index: CLIP, reply: "bool" },
+  "clip/get/will_record_on_start": { index: CLIP, reply: "bool" },
+  "clip/set/color": { index: CLIP, args: ["int"] },
+  "clip/set/color_index": { index: CLIP, args: ["int"] },
+  "clip/set/end_marker": { index: CLIP, args: ["float"] },
+  "clip/set/gain": { index: CLIP, args: ["float"] },
+  "clip/set/launch_mode": { index: CLIP, args: ["int"] },
+  "clip/set/launch_quantization": { index: CLIP, args: ["int"] },
+  "clip/set/legato": { index: CLIP, args: ["bool"] },
+  "clip/set/loop_end": { index: CLIP, args: ["float"] },
+  "clip/set/loop_start": { index: CLIP, args: ["float"] },
+  "clip/set/looping": { index: CLIP, args: ["bool"] },
+  "clip/set/muted": { index: CLIP, args: ["bool"] },
+  "clip/set/name": { index: CLIP, args: ["string"] },
+  "clip/set/pitch_coarse": { index: CLIP, args: ["int"] },
+  "clip/set/pitch_fine": { index: CLIP, args: ["float"] },
+  "clip/set/position": { index: CLIP, args: ["float"] },
+  "clip/set/ram_mode": { index: CLIP, args: ["bool"] },
+  "clip/set/start_marker": { index: CLIP, args: ["float"] },
+  "clip/set/velocity_amount": { index: CLIP, args: ["float"] },
+  "clip/set/warp_mode": { index: CLIP, args: ["int"] },
+  "clip/set/warping": { index: CLIP, args: ["bool"] },
+  "clip/add/notes": {
+    index: CLIP,
+    rest: ["int", "float", "float", "float", "flag"],
+  },
+  "clip/duplicate_loop": { index: CLIP },
+  "clip/fire": { index: CLIP },
+  "clip/quantize": { index: CLIP, args: ["int", "float"] },
+  "clip/remove/notes": {
+    index: CLIP,
+    optional: ["int", "int", "float", "float"],
+  },
+  "clip/start_listen/playing_position": { index: CLIP },
+  "clip/stop": { index: CLIP },
+  "clip/stop_listen/playing_position": { index: CLIP },
+
+  // ============ Device ============
+  "device/get/class_name": { index: DEVICE, reply: "string" },
+  "device/get/is_active": { index: DEVICE, reply: "bool" },
+  "device/get/name": { index: DEVICE, reply: "string" },
+  "device/get/num_parameters": { index: DEVICE, reply: "int" },
+  "device/get/parameter/is_quantized": { index: PARAMETER, reply: "bool" },
+  "device/get/parameter/max": { index: PARAMETER, reply: "float" },
+  "device/get/parameter/min": { index: PARAMETER, reply: "float" },
+  "device/get/parameter/name": { index: PARAMETER, reply: "string" },
+  "device/get/parameter/value": { index: PARAMETER, reply: "float" },
+  "device/get/parameter/value_string": { index: PARAMETER, reply: "string" },
+  "device/get/parameters/max": { index: DEVICE, reply: { list: "float" } },
+  "device/get/parameters/min": { index: DEVICE, reply: { list: "float" } },
+  "device/get/parameters/name": { index: DEVICE, reply: { list: "string" } },
+  "device/get/parameters/value": { index: DEVICE, reply: { list: "float" } },
+  "device/get/type": { index: DEVICE, reply: "int" },
+  "device/set/parameter/value": { index: PARAMETER, args: ["float"] },
+  "device/set/parameters/value": { index: DEVICE, rest: ["float"] },
+
+  // ============ Scene ============
+  "scene/get/color": { index: SCENE, reply: "int" },
+  "scene/get/color_index": { index: SCENE, reply: "int" },
+  "scene/get/is_empty": { index: SCENE, reply: "bool" },
+  "scene/get/is_triggered": { index: SCENE, reply: "bool" },
+  "scene/get/name": { index: SCENE, reply: "string" },
+  "scene/get/tempo": { index: SCENE, reply: "float" },
+  "scene/get/tempo_enabled": { index: SCENE, reply: "bool" },
+  "scene/get/time_signature_denominator": { index: SCENE, reply: "int" },
+  "scene/get/time_signature_enabled": { index: SCENE, reply: "bool" },
+  "scene/get/time_signature_numerator": { index: SCENE, reply: "int" },
+  "scene/set/color": { index: SCENE, args: ["int"] },
+  "scene/set/color_index": { index: SCENE, args: ["int"] },
+  "scene/set/name": { index: SCENE, args: ["string"] },
+  "scene/set/tempo": { index: SCENE, args: ["float"] },
+  "scene/set/tempo_enabled": { index: SCENE, args: ["bool"] },
+  "scene/set/time_signature_enabled": { index: SCENE, args: ["bool"] },
+  "scene/fire": { index: SCENE },
+  "scene/fire_as_selected": { index: SCENE },
+} as const satisfies Record<string, EndpointSpec>;
+
+export type Endpoint = keyof typeof ENDPOINTS;
+
+type Spec<K extends Endpoint> = (typeof ENDPOINTS)[K];
+
+/** Endpoints that answer with a reply */
+export type QueryEndpoint = {
+  [K in Endpoint]: Spec<K> extends { reply: ReplySpec } ? K : never;
+}[Endpoint];
+
+/** Endpoints that are sent without waiting for a reply */
+export type SendEndpoint = Exclude<Endpoint, QueryEndpoint>;
+
+export type ValueOf<T extends ValueType> = T extends "int" | "float"
+  ? number
+  : T extends "bool" | "flag"
+    ? boolean
+    : T extends "string"
+      ? string
+      : T extends "string?"
+        ? string | null
+        : number | string;
+
+type Values<T extends readonly ValueType[]> = {
+  -readonly [I in keyof T]: ValueOf<T[I]>;
+};
+
+type Indices<T extends readonly string[]> = {
+  -readonly [I in keyof T]: number;
+};
+
+type Field<S, F extends keyof EndpointSpec> = S extends {
+  [P in F]: infer T extends readonly ValueType[];
+}
+  ? T
+  : [];
+
+/** Arguments of an endpoint: index arguments first, then the rest */
+export type EndpointArgs<K extends Endpoint> = [
+  ...Indices<
+    Spec<K> extends { index: infer I extends readonly string[] } ? I : []
+  >,
+  ...Values<Field<Spec<K>, "args">>,
+  ...Partial<Values<Field<Spec<K>, "optional">>>,
+  ...ValueOf<Field<Spec<K>, "rest">[number]>[],
+];
+
+export type ReplyValue<R> = R extends ValueType
+  ? ValueOf<R>
+  : R extends { list: infer T extends ValueType }
+    ? ValueOf<T>[]
+    : R extends { tuple: infer T extends readonly ValueType[] }
+      ? Values<T>
+      : R extends { groups: infer T extends readonly ValueType[] }
+        ? Values<T>[]
+        : never;
+
+/** Decoded reply of an endpoint, or void for endpoints that are only sent */
+export type EndpointResult<K extends Endpoint> =
+  Spec<K> extends {
+    reply: infer R;
+  }
+    ? ReplyValue<R>
+    : void;
+
+/**
+ * Which kind of track a track or device endpoint addresses
+ */
+export type TrackKind = "track" | "return_track" | "master_track";
+
+/**
+ * Address of an endpoint on a kind of track: `track/get/volume` becomes
+ * `/live/return_track/get/volume` and `device/get/name` becomes
+ * `/live/return_track/device/get/name`. The master track has no index, so
+ * the first index argument (the track) is left off its messages.
+ */
+export function routeEndpoint(kind: TrackKind, endpoint: string): string {
+  if (kind === "track") {
+    return `/live/${endpoint}`;
+  }
+  if (!endpoint.startsWith("track/") && !endpoint.startsWith("device/")) {
+    throw new Error(`Endpoint ${endpoint} does not exist on ${kind}`);
+  }
+  const path = endpoint.startsWith("track/") ? endpoint.slice(6) : endpoint;
+  return `/live/${kind}/${path}`;
+}
+
+/**
+ * Arguments as sent to a kind of track: without the track index on the
+ * master track
+ */
+export function routeArgs<T>(kind: TrackKind, args: T[]): T[] {
+  return kind === "master_track" ? args.slice(1) : args;
+}
+
+function getSpec(endpoint: string): EndpointSpec {
+  const spec = (ENDPOINTS as Record<string, EndpointSpec>)[endpoint];
+  if (!spec) {
+    throw new Error(`Unknown endpoint: ${endpoint}`);
+  }
+  return spec;
+}
+
+/**
+ * Encode endpoint arguments for the wire
+ */
+export function encodeEndpointArgs(
+  endpoint: Endpoint,
+  args: readonly unknown[]
+): OSCArgument[] {
+  const spec = getSpec(endpoint);
+  const indexCount = spec.index?.length ?? 0;
+  const fixed = [...(spec.args ?? []), ...(spec.optional ?? [])];
+  const rest = spec.rest ?? [];
+
+  return args.map((value, i) => {
+    if (i < indexCount) {
+      return value as number;
+    }
+    const pos = i - indexCount;
+    const type =
+      pos < fixed.length
+        ? fixed[pos]
+        : rest[(pos - fixed.length) % Math.max(rest.length, 1)];
+    return encodeValue(type, value);
+  });
+}
+
+/**
+ * Check arguments whose types are only known at run time against an
+ * endpoint; returns why they do not fit, or null when they do
+ */
+export function checkEndpointArgs(
+  endpoint: Endpoint,
+  args: readonly unknown[]
+): string | null {
+  const spec = getSpec(endpoint);
+  const indexCount = spec.index?.length ?? 0;
+  const required = spec.args ?? [];
+  const fixed = [...required, ...(spec.optional ?? [])];
+  const rest = spec.rest ?? [];
+
+  const min = indexCount + required.length;
+  const max = rest.length > 0 ? Infinity : indexCount + fixed.length;
+  if (args.length < min || args.length > max) {
+    const expected =
+      min === max
+        ? `${min}`
+        : max === Infinity
+          ? `${min} or more`
+          : `${min} to ${max}`;
+    return `expected ${expected} arguments, got ${args.length}`;
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const pos = i - indexCount;
+    const type: ValueType =
+      pos < 0
+        ? "int"
+        : pos < fixed.length
+          ? fixed[pos]
+          : rest[(pos - fixed.length) % rest.length];
+    if (decodeValue(type, args[i] as OSCValue) === undefined) {
+      return `argument ${i} is ${describe(args[i])}, expected ${type}`;
+    }
+  }
+  return null;
+}
+
+function encodeValue(type: ValueType | undefined, value: unknown): OSCArgument {
+  switch (type) {
+    case "float":
+      return float(value as number);
+    case "bool":
+      return value ? 1 : 0;
+    default:
+      return value as OSCArgument;
+  }
+}
+
+/**
+ * Check a reply against the registry and decode it; throws ProtocolError
+ * when it does not have the expected shape
+ */
+export function decodeReply<K extends QueryEndpoint>(
+  endpoint: K,
+  msg: OSCMessage,
+  kind: TrackKind = "track"
+): EndpointResult<K> {
+  return decodeReplyValue(endpoint, msg, kind) as EndpointResult<K>;
+}
+
+function decodeReplyValue(
+  endpoint: string,
+  msg: OSCMessage,
+  kind: TrackKind = "track"
+): unknown {
+  const spec = getSpec(endpoint);
+  const reply = spec.reply!;
+  const echoed = routeArgs(kind, [...(spec.index ?? [])]).length;
+  const values = msg.args.slice(echoed) as OSCValue[];
+
+  const fail = (reason: string): never => {
+    throw new ProtocolError(
+      `Unexpected reply to ${routeEndpoint(kind, endpoint)}: ${reason}`,
+      {
+        address: msg.address,
+        args: msg.args,
+      }
+    );
+  };
+
+  if (msg.args.length < echoed) {
+    fail(`expected ${echoed} index arguments, got ${msg.args.length}`);
+  }
+
+  const decode = (type: ValueType, value: OSCValue, pos: number) => {
+    const decoded = decodeValue(type, value);
+    if (decoded === undefined) {
+      fail(`argument ${echoed + pos} is ${describe(value)}, expected ${type}`);
+    }
+    return decoded;
+  };
+
+  if (typeof reply === "string") {
+    if (values.length !== 1) {
+      fail(`expected 1 value, got ${values.length}`);
+    }
+    return decode(reply, values[0], 0);
+  }
+  if ("list" in reply) {
+    return values.map((v, i) => decode(reply.list, v, i));
+  }
+  if ("tuple" in reply) {
+    if (values.length !== reply.tuple.length) {
+      fail(`expected ${reply.tuple.length} values, got ${values.length}`);
+    }
+    return reply.tuple.map((type, i) => decode(type, values[i], i));
+  }
+
+  const size = reply.groups.length;
+  if (values.length % size !== 0) {
+    fail(`expected groups of ${size} values, got ${values.length} values`);
+  }
+  const groups: unknown[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    groups.push(
+      reply.groups.map((type, j) => decode(type, values[i + j], i + j))
+    );
+  }
+  return groups;
+}
+
+/**
+ * Decoded value, or undefined when it does not match the type
+ */
+function decodeValue(type: ValueType, value: OSCValue): unknown {
+  switch (type) {
+    case "int":
+      return Number.isInteger(value) ? value : undefined;
+    case "float":
+      return typeof value === "number" ? value : undefined;
+    case "bool":
+    case "flag":
+      if (typeof value === "boolean") return value;
+      return value === 0 || value === 1 ? value === 1 : undefined;
+    case "string":
+      return typeof value === "string" ? value : undefined;
+    case "string?":
+      return typeof value === "string" || value === null ? value : undefined;
+    case "int|string":
+      return typeof value === "string" || Number.isInteger(value)
+        ? value
+        : undefined;
+  }
+}
+
+function describe(value: unknown): string {
+  return value === null ? "nil" : `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Query an endpoint and return its decoded reply
+ */
+export async function requestEndpoint<K extends QueryEndpoint>(
+  client: OSCClient,
+  endpoint: K,
+  args: EndpointArgs<K>,
+  options?: QueryOptions,
+  kind: TrackKind = "track"
+): Promise<EndpointResult<K>> {
+  const msg = await client.request(
+    routeEndpoint(kind, endpoint),
+    routeArgs(kind, encodeEndpointArgs(endpoint, args)),
+    options
+  );
+  return decodeReply(endpoint, msg, kind);
+}
+
+/**
+ * Send to an endpoint that has no reply
+ */
+export function sendEndpoint<K extends SendEndpoint>(
+  client: OSCClient,
+  endpoint: K,
+  args: EndpointArgs<K>,
+  kind: TrackKind = "track"
+): void {
+  client.send(
+    routeEndpoint(kind, endpoint),
+    ...routeArgs(kind, encodeEndpointArgs(endpoint, args))
+  );
+}
+
+/**
+ * Query or send depending on the endpoint
+ */
+export async function callEndpoint<K extends Endpoint>(
+  client: OSCClient,
+  endpoint: K,
+  args: EndpointArgs<K>,
+  options?: QueryOptions
+): Promise<EndpointResult<K>> {
+  const address = `/live/${endpoint}`;
+  const encoded = encodeEndpointArgs(endpoint, args);
+  if (!getSpec(endpoint).reply) {
+    client.send(address, ...encoded);
+    return undefined as EndpointResult<K>;
+  }
+  const msg = await client.request(address, encoded, options);
+  return decodeReplyValue(endpoint, msg) as EndpointResult<K>;
+}
@@ -2,7 +2,9 @@
  * Song class - represents the top-level Live Set
  */
 
-import { OSCClient } from "./osc.js";
+import { OSCClient, type QueryOptions } from "./osc.js";
+import { requestEndpoint, sendEndpoint, type QueryEndpoint } from "./schema.js";
+import { iterate, ListenerRegistry, type WatchOptions } from "./listeners.js";
 
 export interface SongState {
   tempo: number;
@@ -53,13 +55,80 @@ export interface CuePoint {
   time: number;
 }
 
+/**
+ * Every song property that can be read and listened to
+ */
+export interface SongProperties extends SongState {
+  arrangementOverdub: boolean;
+  backToArranger: boolean;
+  canRedo: boolean;
+  canUndo: boolean;
+  clipTriggerQuantization: ClipTriggerQuantization;
+  grooveAmount: number;
+  loop: boolean;
+  loopLength: number;
+  loopStart: number;
+  midiRecordingQuantization: MidiRecordingQuantization;
+  nudgeDown: boolean;
+  nudgeUp: boolean;
+  punchIn: boolean;
+  punchOut: boolean;
+  recordMode: RecordMode;
+  rootNote: number;
+  scaleName: string;
+  sessionRecord: boolean;
+  sessionRecordStatus: number;
+  signatureNumerator: number;
+  signatureDenominator: number;
+}
+
+type SongPropertyName = Exclude<keyof SongProperties, "signature">;
+
+type SongQuery = Extract<QueryEndpoint, `song/get/${string}`>;
+
+// Live property names; signature combines numerator and denominator
+const SONG_PROPERTIES: Record<SongPropertyName, string> = {
+  tempo: "tempo",
+  isPlaying: "is_playing",
+  songLength: "song_length",
+  currentTime: "current_song_time",
+  metronome: "metronome",
+  arrangementOverdub: "arrangement_overdub",
+  backToArranger: "back_to_arranger",
+  canRedo: "can_redo",
+  canUndo: "can_undo",
+  clipTriggerQuantization: "clip_trigger_quantization",
+  grooveAmount: "groove_amount",
+  loop: "loop",
+  loopLength: "loop_length",
+  loopStart: "loop_start",
+  midiRecordingQuantization: "midi_recording_quantization",
+  nudgeDown: "nudge_down",
+  nudgeUp: "nudge_up",
+  punchIn: "punch_in",
+  punchOut: "punch_out",
+  recordMode: "record_mode",
+  rootNote: "root_note",
+  scaleName: "scale_name",
+  sessionRecord: "session_record",
+  sessionRecordStatus: "session_record_status",
+  signatureNumerator: "signature_numerator",
+  signatureDenominator: "signature_denominator",
+};
+
+// Live has no change notification for these, so they are polled
+const POLLED_PROPERTIES: ReadonlySet<keyof SongProperties> = new Set([
+  "canRedo",
+  "canUndo",
+]);
+
 export class Song {
   private client: OSCClient;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private listeners: Map<string, Set<(value: any) => void>> = new Map();
   private pollInterval: NodeJS.Timeout | null = null;
-  private beatListeners: Set<(beat: number) => void> = new Set();
-  private beatListening = false;
+  private lastValues: Map<string, unknown> = new Map();
+  private stopBeatListen: (() => void) | null = null;
 
   constructor(client: OSCClient) {
     this.client = client;
@@ -67,155 +136,174 @@ export class Song {
 
   // ============ Getters ============
 
-  async get<K extends keyof SongState>(prop: K): Promise<SongState[K]> {
-    const propMap: Record<string, string> = {
-      tempo: "/live/song/get/tempo",
-      isPlaying: "/live/song/get/is_playing",
-      songLength: "/live/song/get/song_length",
-      currentTime: "/live/song/get/current_song_time",
-      metronome: "/live/song/get/metronome",
-      signature: "/live/song/get/signature_numerator", // TODO: combine with denominator
-    };
+  async get<K extends keyof SongProperties>(
+    prop: K,
+    options?: QueryOptions
+  ): Promise<SongProperties[K]> {
+    if (prop === "signature") {
+      const [numerator, denominator] = await Promise.all([
+        this.getSignatureNumerator(options),
+        this.getSignatureDenominator(options),
+      ]);
+      return [numerator, denominator] as SongProperties[K];
+    }
 
-    const address = propMap[prop as string];
-    if (!address) {
+    const name = SONG_PROPERTIES[prop as SongPropertyName];
+    if (!name) {
       throw new Error(`Unknown property: ${prop}`);
     }
 
-    const response = await this.client.query(address);
-    return response.args[0] as SongState[K];
+    return (await requestEndpoint(
+      this.client,
+      `song/get/${name}` as SongQuery,
+      [],
+      options
+    )) as SongProperties[K];
   }
 
-  async getTempo(): Promise<number> {
-    return this.get("tempo");
+  async getTempo(options?: QueryOptions): Promise<number> {
+    return this.get("tempo", options);
   }
 
-  async getIsPlaying(): Promise<boolean> {
-    return this.get("isPlaying");
+  async getIsPlaying(options?: QueryOptions): Promise<boolean> {
+    return this.get("isPlaying", options);
   }
 
-  async getCurrentTime(): Promise<number> {
-    return this.get("currentTime");
+  async getCurrentTime(options?: QueryOptions): Promise<number> {
+    return this.get("currentTime", options);
   }
 
-  async getSongLength(): Promise<number> {
-    return this.get("songLength");
+  async getSongLength(options?: QueryOptions): Promise<number> {
+    return this.get("songLength", options);
   }
 
-  async getMetronome(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/metronome");
-    return res.args[0] as boolean;
+  async getMetronome(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/metronome", [], options);
   }
 
   // ============ New Getters ============
 
-  async getArrangementOverdub(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/arrangement_overdub");
-    return res.args[0] as boolean;
+  async getArrangementOverdub(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "song/get/arrangement_overdub",
+      [],
+      options
+    );
   }
 
-  async getBackToArranger(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/back_to_arranger");
-    return res.args[0] as boolean;
+  async getBackToArranger(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "song/get/back_to_arranger",
+      [],
+      options
+    );
   }
 
-  async getCanRedo(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/can_redo");
-    return res.args[0] as boolean;
+  async getCanRedo(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/can_redo", [], options);
   }
 
-  async getCanUndo(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/can_undo");
-    return res.args[0] as boolean;
+  async getCanUndo(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/can_undo", [], options);
   }
 
-  async getClipTriggerQuantization(): Promise<ClipTriggerQuantization> {
-    const res = await this.client.query(
-      "/live/song/get/clip_trigger_quantization"
+  async getClipTriggerQuantization(
+    options?: QueryOptions
+  ): Promise<ClipTriggerQuantization> {
+    return requestEndpoint(
+      this.client,
+      "song/get/clip_trigger_quantization",
+      [],
+      options
     );
-    return res.args[0] as ClipTriggerQuantization;
   }
 
-  async getGrooveAmount(): Promise<number> {
-    const res = await this.client.query("/live/song/get/groove_amount");
-    return res.args[0] as number;
+  async getGrooveAmount(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "song/get/groove_amount", [], options);
   }
 
-  async getLoop(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/loop");
-    return res.args[0] as boolean;
+  async getLoop(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/loop", [], options);
   }
 
-  async getLoopLength(): Promise<number> {
-    const res = await this.client.query("/live/song/get/loop_length");
-    return res.args[0] as number;
+  async getLoopLength(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "song/get/loop_length", [], options);
   }
 
-  async getLoopStart(): Promise<number> {
-    const res = await this.client.query("/live/song/get/loop_start");
-    return res.args[0] as number;
+  async getLoopStart(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "song/get/loop_start", [], options);
   }
 
-  async getMidiRecordingQuantization(): Promise<MidiRecordingQuantization> {
-    const res = await this.client.query(
-      "/live/song/get/midi_recording_quantization"
+  async getMidiRecordingQuantization(
+    options?: QueryOptions
+  ): Promise<MidiRecordingQuantization> {
+    return requestEndpoint(
+      this.client,
+      "song/get/midi_recording_quantization",
+      [],
+      options
     );
-    return res.args[0] as MidiRecordingQuantization;
   }
 
-  async getNudgeDown(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/nudge_down");
-    return res.args[0] as boolean;
+  async getNudgeDown(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/nudge_down", [], options);
   }
 
-  async getNudgeUp(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/nudge_up");
-    return res.args[0] as boolean;
+  async getNudgeUp(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/nudge_up", [], options);
   }
 
-  async getPunchIn(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/punch_in");
-    return res.args[0] as boolean;
+  async getPunchIn(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/punch_in", [], options);
   }
 
-  async getPunchOut(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/punch_out");
-    return res.args[0] as boolean;
+  async getPunchOut(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/punch_out", [], options);
   }
 
-  async getRecordMode(): Promise<RecordMode> {
-    const res = await this.client.query("/live/song/get/record_mode");
-    return res.args[0] as RecordMode;
+  async getRecordMode(options?: QueryOptions): Promise<RecordMode> {
+    return requestEndpoint(this.client, "song/get/record_mode", [], options);
   }
 
-  async getRootNote(): Promise<number> {
-    const res = await this.client.query("/live/song/get/root_note");
-    return res.args[0] as number;
+  async getRootNote(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "song/get/root_note", [], options);
   }
 
-  async getScaleName(): Promise<string> {
-    const res = await this.client.query("/live/song/get/scale_name");
-    return res.args[0] as string;
+  async getScaleName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(this.client, "song/get/scale_name", [], options);
   }
 
-  async getSessionRecord(): Promise<boolean> {
-    const res = await this.client.query("/live/song/get/session_record");
-    return res.args[0] as boolean;
+  async getSessionRecord(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "song/get/session_record", [], options);
   }
 
-  async getSessionRecordStatus(): Promise<number> {
-    const res = await this.client.query("/live/song/get/session_record_status");
-    return res.args[0] as number;
+  async getSessionRecordStatus(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "song/get/session_record_status",
+      [],
+      options
+    );
   }
 
-  async getSignatureNumerator(): Promise<number> {
-    const res = await this.client.query("/live/song/get/signature_numerator");
-    return res.args[0] as number;
+  async getSignatureNumerator(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "song/get/signature_numerator",
+      [],
+      options
+    );
   }
 
-  async getSignatureDenominator(): Promise<number> {
-    const res = await this.client.query("/live/song/get/signature_denominator");
-    return res.args[0] as number;
+  async getSignatureDenominator(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "song/get/signature_denominator",
+      [],
+      options
+    );
   }
 
   // ============ Setters ============
@@ -224,17 +312,16 @@ export class Song {
     prop: K,
     value: SongState[K]
   ): Promise<void> {
-    const propMap: Record<string, string> = {
-      tempo: "/live/song/set/tempo",
-      metronome: "/live/song/set/metronome",
-    };
-
-    const address = propMap[prop as string];
-    if (!address) {
-      throw new Error(`Cannot set property: ${prop}`);
+    switch (prop) {
+      case "tempo":
+        sendEndpoint(this.client, "song/set/tempo", [value as number]);
+        return;
+      case "metronome":
+        sendEndpoint(this.client, "song/set/metronome", [value as boolean]);
+        return;
+      default:
+        throw new Error(`Cannot set property: ${prop}`);
     }
-
-    this.client.send(address, value as number | boolean);
   }
 
   async setTempo(bpm: number): Promise<void> {
@@ -242,138 +329,139 @@ export class Song {
   }
 
   async setMetronome(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/metronome", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/metronome", [enabled]);
   }
 
   // ============ New Setters ============
 
   async setArrangementOverdub(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/arrangement_overdub", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/arrangement_overdub", [enabled]);
   }
 
   async setBackToArranger(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/back_to_arranger", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/back_to_arranger", [enabled]);
   }
 
   async setClipTriggerQuantization(
     quantization: ClipTriggerQuantization
   ): Promise<void> {
-    this.client.send("/live/song/set/clip_trigger_quantization", quantization);
+    sendEndpoint(this.client, "song/set/clip_trigger_quantization", [
+      quantization,
+    ]);
   }
 
   async setGrooveAmount(amount: number): Promise<void> {
-    this.client.send("/live/song/set/groove_amount", amount);
+    sendEndpoint(this.client, "song/set/groove_amount", [amount]);
   }
 
   async setLoop(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/loop", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/loop", [enabled]);
   }
 
   async setLoopLength(length: number): Promise<void> {
-    this.client.send("/live/song/set/loop_length", length);
+    sendEndpoint(this.client, "song/set/loop_length", [length]);
   }
 
   async setLoopStart(start: number): Promise<void> {
-    this.client.send("/live/song/set/loop_start", start);
+    sendEndpoint(this.client, "song/set/loop_start", [start]);
   }
 
   async setMidiRecordingQuantization(
     quantization: MidiRecordingQuantization
   ): Promise<void> {
-    this.client.send(
-      "/live/song/set/midi_recording_quantization",
-      quantization
-    );
+    sendEndpoint(this.client, "song/set/midi_recording_quantization", [
+      quantization,
+    ]);
   }
 
   async setNudgeDown(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/nudge_down", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/nudge_down", [enabled]);
   }
 
   async setNudgeUp(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/nudge_up", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/nudge_up", [enabled]);
   }
 
   async setPunchIn(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/punch_in", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/punch_in", [enabled]);
   }
 
   async setPunchOut(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/punch_out", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/punch_out", [enabled]);
   }
 
   async setRecordMode(mode: RecordMode): Promise<void> {
-    this.client.send("/live/song/set/record_mode", mode);
+    sendEndpoint(this.client, "song/set/record_mode", [mode]);
   }
 
   async setRootNote(note: number): Promise<void> {
-    this.client.send("/live/song/set/root_note", note);
+    sendEndpoint(this.client, "song/set/root_note", [note]);
   }
 
   async setScaleName(name: string): Promise<void> {
-    this.client.send("/live/song/set/scale_name", name);
+    sendEndpoint(this.client, "song/set/scale_name", [name]);
   }
 
   async setSessionRecord(enabled: boolean): Promise<void> {
-    this.client.send("/live/song/set/session_record", enabled ? 1 : 0);
+    sendEndpoint(this.client, "song/set/session_record", [enabled]);
   }
 
   async setSignatureNumerator(numerator: number): Promise<void> {
-    this.client.send("/live/song/set/signature_numerator", numerator);
+    sendEndpoint(this.client, "song/set/signature_numerator", [numerator]);
   }
 
   async setSignatureDenominator(denominator: number): Promise<void> {
-    this.client.send("/live/song/set/signature_denominator", denominator);
+    sendEndpoint(this.client, "song/set/signature_denominator", [denominator]);
   }
 
   // ============ Transport Controls ============
 
   play(): void {
-    this.client.send("/live/song/start_playing");
+    sendEndpoint(this.client, "song/start_playing", []);
   }
 
   stop(): void {
-    this.client.send("/live/song/stop_playing");
+    sendEndpoint(this.client, "song/stop_playing", []);
   }
 
   continuePlaying(): void {
-    this.client.send("/live/song/continue_playing");
+    sendEndpoint(this.client, "song/continue_playing", []);
   }
 
   stopAllClips(): void {
-    this.client.send("/live/song/stop_all_clips");
+    sendEndpoint(this.client, "song/stop_all_clips", []);
   }
 
   // ============ Navigation ============
 
   jumpBy(beats: number): void {
-    this.client.send("/live/song/jump_by", beats);
+    sendEndpoint(this.client, "song/jump_by", [beats]);
   }
 
   jumpToNextCue(): void {
-    this.client.send("/live/song/jump_to_next_cue");
+    sendEndpoint(this.client, "song/jump_to_next_cue", []);
   }
 
   jumpToPrevCue(): void {
-    this.client.send("/live/song/jump_to_prev_cue");
+    sendEndpoint(this.client, "song/jump_to_prev_cue", []);
   }
 
   jumpToCue(nameOrIndex: string | number): void {
-    this.client.send("/live/song/cue_point/jump", nameOrIndex);
+    sendEndpoint(this.client, "song/cue_point/jump", [nameOrIndex]);
   }
 
   // ============ Other Actions ============
 
   undo(): void {
-    this.client.send("/live/song/undo");
+    sendEndpoint(this.client, "song/undo", []);
   }
 
   redo(): void {
-    this.client.send("/live/song/redo");
+    sendEndpoint(this.client, "song/redo", []);
   }
 
   tapTempo(): void {
-    this.client.send("/live/song/tap_tempo");
+    sendEndpoint(this.client, "song/tap_tempo", []);
   }
 
   // ============ New Actions ============
@@ -382,14 +470,14 @@ export class Song {
    * Capture MIDI that was played during the last few seconds
    */
   captureMidi(): void {
-    this.client.send("/live/song/capture_midi");
+    sendEndpoint(this.client, "song/capture_midi", []);
   }
 
   /**
    * Trigger session recording
    */
   triggerSessionRecord(): void {
-    this.client.send("/live/song/trigger_session_record");
+    sendEndpoint(this.client, "song/trigger_session_record", []);
   }
 
   // ============ Cue Points ============
@@ -397,18 +485,14 @@ export class Song {
   /**
    * Get all cue points in the song
    */
-  async getCuePoints(): Promise<CuePoint[]> {
-    const res = await this.client.query("/live/song/get/cue_points");
-    const cuePoints: CuePoint[] = [];
-    // Response format: id, name, time, id, name, time, ...
-    for (let i = 0; i < res.args.length; i += 3) {
-      cuePoints.push({
-        id: res.args[i] as number,
-        name: res.args[i + 1] as string,
-        time: res.args[i + 2] as number,
-      });
-    }
-    return cuePoints;
+  async getCuePoints(options?: QueryOptions): Promise<CuePoint[]> {
+    const groups = await requestEndpoint(
+      this.client,
+      "song/get/cue_points",
+      [],
+      options
+    );
+    return groups.map(([id, name, time]) => ({ id, name, time }));
   }
 
   /**
@@ -416,69 +500,153 @@ export class Song {
    * If a cue point exists at that time, it will be deleted
    */
   addOrDeleteCuePoint(time: number): void {
-    this.client.send("/live/song/cue_point/add_or_delete", time);
+    sendEndpoint(this.client, "song/cue_point/add_or_delete", [time]);
   }
 
   /**
    * Set the name of a cue point
    */
   setCuePointName(cuePointId: number, name: string): void {
-    this.client.send("/live/song/cue_point/set/name", cuePointId, name);
+    sendEndpoint(this.client, "song/cue_point/set/name", [cuePointId, name]);
   }
 
   // ============ Beat Listener ============
 
   /**
-   * Start listening for beat events from Ableton
-   * Call this to enable beat notifications from AbletonOSC
+   * Keep the beat listen running without a callback
    */
   startListenBeat(): void {
-    if (!this.beatListening) {
-      this.client.send("/live/song/start_listen/beat");
-      this.beatListening = true;
+    if (!this.stopBeatListen) {
+      this.stopBeatListen = this.addBeatListener(() => {});
     }
   }
 
   /**
-   * Stop listening for beat events
+   * Undo `startListenBeat()`; the listen stops once no callbacks are left
    */
   stopListenBeat(): void {
-    if (this.beatListening) {
-      this.client.send("/live/song/stop_listen/beat");
-      this.beatListening = false;
-    }
+    this.stopBeatListen?.();
+    this.stopBeatListen = null;
   }
 
   /**
-   * Add a callback for beat events
-   * Note: You must call startListenBeat() first and handle /live/song/get/beat
-   * messages from the OSC client
+   * Call `callback` on every beat while Live is playing. The first callback
+   * starts AbletonOSC's beat listen and removing the last one stops it.
    */
   addBeatListener(callback: (beat: number) => void): () => void {
-    this.beatListeners.add(callback);
-    return () => {
-      this.beatListeners.delete(callback);
-    };
+    return ListenerRegistry.for(this.client).listen(
+      "song/get/beat",
+      [],
+      callback
+    );
   }
 
   /**
-   * Internal method to notify beat listeners
-   * Call this when receiving /live/song/get/beat OSC messages
+   * Pass a beat to the beat listeners as if Live had sent it
+   *
+   * @deprecated Beats from Live reach `addBeatListener()` callbacks by
+   * themselves; there is no need to forward /live/song/get/beat messages.
    */
   notifyBeat(beat: number): void {
-    for (const cb of this.beatListeners) {
-      cb(beat);
-    }
+    ListenerRegistry.for(this.client).notify("song/get/beat", [], {
+      address: "/live/song/get/beat",
+      args: [beat],
+    });
+  }
+
+  /**
+   * Beats as an async iterator, ending when the loop exits or the signal
+   * is aborted
+   *
+   * @example
+   * ```typescript
+   * for await (const beat of ableton.song.beats()) {
+   *   console.log(beat);
+   * }
+   * ```
+   */
+  beats(options?: WatchOptions<number>): AsyncIterableIterator<number> {
+    return iterate((cb) => this.addBeatListener(cb), options);
   }
 
   // ============ Event Listeners ============
 
   /**
-   * Add a listener for property changes (polling-based)
+   * Add a listener for property changes
+   *
+   * Uses AbletonOSC's start_listen, shared by all listeners of the same
+   * property; the callback gets the current value first. Properties Live
+   * cannot observe (canUndo, canRedo) are polled instead.
    */
-  addListener<K extends keyof SongState>(
+  addListener<K extends keyof SongProperties>(
     prop: K,
-    callback: (value: SongState[K]) => void
+    callback: (value: SongProperties[K]) => void
+  ): () => void {
+    if (prop === "signature") {
+      return this.addSignatureListener(
+        callback as (value: SongProperties["signature"]) => void
+      );
+    }
+    if (POLLED_PROPERTIES.has(prop)) {
+      return this.addPolledListener(prop, callback);
+    }
+
+    const name = SONG_PROPERTIES[prop as SongPropertyName];
+    if (!name) {
+      throw new Error(`Unknown property: ${prop}`);
+    }
+
+    const endpoint = `song/get/${name}` as SongQuery;
+    return ListenerRegistry.for(this.client).listen(endpoint, [], (value) => {
+      callback(value as SongProperties[K]);
+    });
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   *
+   * @example
+   * ```typescript
+   * for await (const bpm of ableton.song.watch("tempo", { throttle: 100 })) {
+   *   console.log(bpm);
+   * }
+   * ```
+   */
+  watch<K extends keyof SongProperties>(
+    prop: K,
+    options?: WatchOptions<SongProperties[K]>
+  ): AsyncIterableIterator<SongProperties[K]> {
+    return iterate((cb) => this.addListener(prop, cb), options);
+  }
+
+  private addSignatureListener(
+    callback: (value: [number, number]) => void
+  ): () => void {
+    let numerator: number | undefined;
+    let denominator: number | undefined;
+    const update = () => {
+      if (numerator !== undefined && denominator !== undefined) {
+        callback([numerator, denominator]);
+      }
+    };
+
+    const removers = [
+      this.addListener("signatureNumerator", (value) => {
+        numerator = value;
+        update();
+      }),
+      this.addListener("signatureDenominator", (value) => {
+        denominator = value;
+        update();
+      }),
+    ];
+    return () => removers.forEach((remove) => remove());
+  }
+
+  private addPolledListener<K extends keyof SongProperties>(
+    prop: K,
+    callback: (value: SongProperties[K]) => void
   ): () => void {
     if (!this.listeners.has(prop)) {
       this.listeners.set(prop, new Set());
@@ -495,6 +663,7 @@ export class Song {
       this.listeners.get(prop)?.delete(callback);
       if (this.listeners.get(prop)?.size === 0) {
         this.listeners.delete(prop);
+        this.lastValues.delete(prop);
       }
       if (this.listeners.size === 0) {
         this.stopPolling();
@@ -502,13 +671,11 @@ export class Song {
     };
   }
 
-  private lastValues: Map<string, unknown> = new Map();
-
   private startPolling(intervalMs = 100): void {
     this.pollInterval = setInterval(async () => {
       for (const [prop, callbacks] of this.listeners) {
         try {
-          const value = await this.get(prop as keyof SongState);
+          const value = await this.get(prop as keyof SongProperties);
           if (value !== this.lastValues.get(prop)) {
             this.lastValues.set(prop, value);
             for (const cb of callbacks) {
@@ -532,19 +699,19 @@ export class Song {
   /**
    * Get full song state snapshot
    */
-  async getState(): Promise<SongState> {
+  async getState(options?: QueryOptions): Promise<SongState> {
     const [tempo, isPlaying, songLength, currentTime, metronome] =
       await Promise.all([
-        this.get("tempo"),
-        this.get("isPlaying"),
-        this.get("songLength"),
-        this.get("currentTime"),
-        this.getMetronome(),
+        this.get("tempo", options),
+        this.get("isPlaying", options),
+        this.get("songLength", options),
+        this.get("currentTime", options),
+        this.getMetronome(options),
       ]);
 
     const [signatureNumerator, signatureDenominator] = await Promise.all([
-      this.getSignatureNumerator(),
-      this.getSignatureDenominator(),
+      this.getSignatureNumerator(options),
+      this.getSignatureDenominator(options),
     ]);
 
     return {
@@ -0,0 +1,93 @@
+/**
+ * Group track hierarchy
+ *
+ * Live lists tracks depth-first: a group track comes right before the
+ * tracks in it. Each track reports the group it is in, from which the tree
+ * is built.
+ */
+
+import type { OSCClient, QueryOptions } from "./osc.js";
+import { getGroupTrackIds, Track } from "./track.js";
+import { requestEndpoint } from "./schema.js";
+
+export interface TrackLeafNode {
+  type: "track";
+  track: Track;
+  name: string;
+}
+
+export interface GroupTrackNode {
+  type: "group";
+  track: Track;
+  name: string;
+  folded: boolean;
+  children: TrackNode[];
+}
+
+export type TrackNode = TrackLeafNode | GroupTrackNode;
+
+/**
+ * Fetch the tracks of the Live Set as a tree of group and child tracks
+ */
+export async function buildTrackTree(
+  client: OSCClient,
+  options?: QueryOptions
+): Promise<TrackNode[]> {
+  const [names, groups] = await Promise.all([
+    requestEndpoint(client, "song/get/track_names", [], options),
+    getGroupTrackIds(client, options),
+  ]);
+  const foldable = await Promise.all(
+    groups.map((_, i) =>
+      requestEndpoint(client, "track/get/is_foldable", [i], options)
+    )
+  );
+  const folded = await Promise.all(
+    foldable.map((isGroup, i) =>
+      isGroup
+        ? requestEndpoint(client, "track/get/fold_state", [i], options)
+        : false
+    )
+  );
+
+  const nodes: TrackNode[] = groups.map((_, i) => {
+    const track = new Track(client, i);
+    const name = names[i] ?? "";
+    return foldable[i]
+      ? { type: "group", track, name, folded: folded[i], children: [] }
+      : { type: "track", track, name };
+  });
+
+  const roots: TrackNode[] = [];
+  nodes.forEach((node, i) => {
+    const parent = nodes[groups[i]];
+    if (parent?.type === "group") {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
+
+/**
+ * Visit every node depth-first, parents before their children
+ */
+export function walkTrackTree(
+  nodes: TrackNode[],
+  visit: (node: TrackNode, depth: number, parent: GroupTrackNode | null) => void
+): void {
+  const walk = (
+    list: TrackNode[],
+    depth: number,
+    parent: GroupTrackNode | null
+  ) => {
+    for (const node of list) {
+      visit(node, depth, parent);
+      if (node.type === "group") {
+        walk(node.children, depth + 1, node);
+      }
+    }
+  };
+  walk(nodes, 0, null);
+}
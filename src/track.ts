@@ -2,10 +2,24 @@
  * Track class - represents a track in the Live Set
  */
 
-import { OSCClient } from "./osc.js";
+import { OSCClient, type QueryOptions } from "./osc.js";
 import { Clip } from "./clip.js";
 import { ClipSlot } from "./clip-slot.js";
 import { Device } from "./device.js";
+import { HandleRegistry, type IndexSlot } from "./handles.js";
+import { findByName, type FindOptions, type NameQuery } from "./lookup.js";
+import {
+  requestEndpoint,
+  sendEndpoint,
+  type EndpointResult,
+  type TrackKind,
+} from "./schema.js";
+import {
+  iterate,
+  ListenerRegistry,
+  type ListenerCallback,
+  type WatchOptions,
+} from "./listeners.js";
 
 export interface TrackState {
   name: string;
@@ -27,6 +41,49 @@ export enum MonitoringState {
   Off = 2,
 }
 
+/** Mixer properties every kind of track can observe with `on()` */
+export type MixerEvent = "volume" | "panning" | "output_meter_level";
+
+export type MixerEvents = {
+  [K in MixerEvent]: EndpointResult<`track/get/${K}`>;
+};
+
+/**
+ * Mixer and device chain shared by regular, return and master tracks
+ */
+export interface MixerTrack {
+  readonly kind: TrackKind;
+  getName(options?: QueryOptions): Promise<string>;
+  getVolume(options?: QueryOptions): Promise<number>;
+  setVolume(volume: number): Promise<void>;
+  getPanning(options?: QueryOptions): Promise<number>;
+  setPanning(panning: number): Promise<void>;
+  getOutputMeterLevel(options?: QueryOptions): Promise<number>;
+  getDevice(deviceId: number): Device;
+  getDeviceNames(options?: QueryOptions): Promise<string[]>;
+  getNumDevices(options?: QueryOptions): Promise<number>;
+  findDevice(query: NameQuery, options?: FindOptions): Promise<Device>;
+  on<K extends MixerEvent>(
+    event: K,
+    handler: (value: MixerEvents[K]) => void
+  ): () => void;
+  off<K extends MixerEvent>(
+    event: K,
+    handler: (value: MixerEvents[K]) => void
+  ): void;
+  watch<K extends MixerEvent>(
+    event: K,
+    options?: WatchOptions<MixerEvents[K]>
+  ): AsyncIterableIterator<MixerEvents[K]>;
+}
+
+/** Track properties that can be observed with `on()` */
+export type TrackEvent = MixerEvent | "mute" | "solo" | "arm";
+
+export type TrackEvents = {
+  [K in TrackEvent]: EndpointResult<`track/get/${K}`>;
+};
+
 export interface ArrangementClip {
   startTime: number;
   endTime: number;
@@ -34,294 +91,441 @@ export interface ArrangementClip {
   color: number;
 }
 
-export class Track {
+export class Track implements MixerTrack {
   private client: OSCClient;
-  readonly id: number;
+  private slot: IndexSlot;
+  readonly kind = "track";
 
   constructor(client: OSCClient, trackId: number) {
     this.client = client;
-    this.id = trackId;
+    this.slot = HandleRegistry.for(client).slot("track", trackId);
+  }
+
+  /**
+   * Current index of the track. Follows tracks inserted and deleted before
+   * it; throws StaleHandleError once the track itself was deleted.
+   */
+  get id(): number {
+    return this.slot.index;
+  }
+
+  /** Whether the track was deleted */
+  get stale(): boolean {
+    return this.slot.stale;
   }
 
   // ============ Getters ============
 
-  async getName(): Promise<string> {
-    const res = await this.client.query("/live/track/get/name", this.id);
-    return res.args[1] as string;
+  async getName(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(this.client, "track/get/name", [this.id], options);
   }
 
-  async getColor(): Promise<number> {
-    const res = await this.client.query("/live/track/get/color", this.id);
-    return res.args[1] as number;
+  async getColor(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "track/get/color", [this.id], options);
   }
 
-  async getColorIndex(): Promise<number> {
-    const res = await this.client.query("/live/track/get/color_index", this.id);
-    return res.args[1] as number;
+  async getColorIndex(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/color_index",
+      [this.id],
+      options
+    );
   }
 
-  async getMute(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/mute", this.id);
-    return res.args[1] as boolean;
+  async getMute(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "track/get/mute", [this.id], options);
   }
 
-  async getSolo(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/solo", this.id);
-    return res.args[1] as boolean;
+  async getSolo(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "track/get/solo", [this.id], options);
   }
 
-  async getArm(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/arm", this.id);
-    return res.args[1] as boolean;
+  async getArm(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(this.client, "track/get/arm", [this.id], options);
   }
 
   /**
    * Get the output meter level (for visualization)
    */
-  async getOutputMeterLevel(): Promise<number> {
-    const res = await this.client.query(
-      "/live/track/get/output_meter_level",
-      this.id
+  async getOutputMeterLevel(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/output_meter_level",
+      [this.id],
+      options
     );
-    return res.args[1] as number;
   }
 
   /**
    * Get the mixer volume (0.0 to 1.0, 0.85 = 0dB)
    */
-  async getVolume(): Promise<number> {
-    const res = await this.client.query("/live/track/get/volume", this.id);
-    return res.args[1] as number;
+  async getVolume(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(this.client, "track/get/volume", [this.id], options);
   }
 
-  async getPanning(): Promise<number> {
-    const res = await this.client.query("/live/track/get/panning", this.id);
-    return res.args[1] as number;
+  async getPanning(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/panning",
+      [this.id],
+      options
+    );
   }
 
   // ============ New Getters - Routing ============
 
-  async getInputRoutingChannel(): Promise<string> {
-    const res = await this.client.query(
-      "/live/track/get/input_routing_channel",
-      this.id
+  async getInputRoutingChannel(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "track/get/input_routing_channel",
+      [this.id],
+      options
     );
-    return res.args[1] as string;
   }
 
-  async getInputRoutingType(): Promise<string> {
-    const res = await this.client.query(
-      "/live/track/get/input_routing_type",
-      this.id
+  async getInputRoutingType(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "track/get/input_routing_type",
+      [this.id],
+      options
     );
-    return res.args[1] as string;
   }
 
-  async getOutputRoutingChannel(): Promise<string> {
-    const res = await this.client.query(
-      "/live/track/get/output_routing_channel",
-      this.id
+  async getOutputRoutingChannel(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "track/get/output_routing_channel",
+      [this.id],
+      options
     );
-    return res.args[1] as string;
   }
 
-  async getOutputRoutingType(): Promise<string> {
-    const res = await this.client.query(
-      "/live/track/get/output_routing_type",
-      this.id
+  async getOutputRoutingType(options?: QueryOptions): Promise<string> {
+    return requestEndpoint(
+      this.client,
+      "track/get/output_routing_type",
+      [this.id],
+      options
     );
-    return res.args[1] as string;
   }
 
-  async getAvailableInputRoutingChannels(): Promise<string[]> {
-    const res = await this.client.query(
-      "/live/track/get/available_input_routing_channels",
-      this.id
+  async getAvailableInputRoutingChannels(
+    options?: QueryOptions
+  ): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/available_input_routing_channels",
+      [this.id],
+      options
     );
-    return res.args.slice(1) as string[];
   }
 
-  async getAvailableInputRoutingTypes(): Promise<string[]> {
-    const res = await this.client.query(
-      "/live/track/get/available_input_routing_types",
-      this.id
+  async getAvailableInputRoutingTypes(
+    options?: QueryOptions
+  ): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/available_input_routing_types",
+      [this.id],
+      options
     );
-    return res.args.slice(1) as string[];
   }
 
-  async getAvailableOutputRoutingChannels(): Promise<string[]> {
-    const res = await this.client.query(
-      "/live/track/get/available_output_routing_channels",
-      this.id
+  async getAvailableOutputRoutingChannels(
+    options?: QueryOptions
+  ): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/available_output_routing_channels",
+      [this.id],
+      options
     );
-    return res.args.slice(1) as string[];
   }
 
-  async getAvailableOutputRoutingTypes(): Promise<string[]> {
-    const res = await this.client.query(
-      "/live/track/get/available_output_routing_types",
-      this.id
+  async getAvailableOutputRoutingTypes(
+    options?: QueryOptions
+  ): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/available_output_routing_types",
+      [this.id],
+      options
     );
-    return res.args.slice(1) as string[];
   }
 
   // ============ New Getters - State ============
 
-  async getCurrentMonitoringState(): Promise<MonitoringState> {
-    const res = await this.client.query(
-      "/live/track/get/current_monitoring_state",
-      this.id
+  async getCurrentMonitoringState(
+    options?: QueryOptions
+  ): Promise<MonitoringState> {
+    return requestEndpoint(
+      this.client,
+      "track/get/current_monitoring_state",
+      [this.id],
+      options
     );
-    return res.args[1] as MonitoringState;
   }
 
-  async getFoldState(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/fold_state", this.id);
-    return res.args[1] as boolean;
+  async getFoldState(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/fold_state",
+      [this.id],
+      options
+    );
   }
 
-  async getHasAudioInput(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/track/get/has_audio_input",
-      this.id
+  async getHasAudioInput(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/has_audio_input",
+      [this.id],
+      options
     );
-    return res.args[1] as boolean;
   }
 
-  async getHasAudioOutput(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/track/get/has_audio_output",
-      this.id
+  async getHasAudioOutput(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/has_audio_output",
+      [this.id],
+      options
     );
-    return res.args[1] as boolean;
   }
 
-  async getHasMidiInput(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/track/get/has_midi_input",
-      this.id
+  async getHasMidiInput(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/has_midi_input",
+      [this.id],
+      options
     );
-    return res.args[1] as boolean;
   }
 
-  async getHasMidiOutput(): Promise<boolean> {
-    const res = await this.client.query(
-      "/live/track/get/has_midi_output",
-      this.id
+  async getHasMidiOutput(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/has_midi_output",
+      [this.id],
+      options
     );
-    return res.args[1] as boolean;
   }
 
-  async getIsFoldable(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/is_foldable", this.id);
-    return res.args[1] as boolean;
+  async getIsFoldable(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/is_foldable",
+      [this.id],
+      options
+    );
   }
 
-  async getIsGrouped(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/is_grouped", this.id);
-    return res.args[1] as boolean;
+  async getIsGrouped(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/is_grouped",
+      [this.id],
+      options
+    );
   }
 
-  async getIsVisible(): Promise<boolean> {
-    const res = await this.client.query("/live/track/get/is_visible", this.id);
-    return res.args[1] as boolean;
+  async getIsVisible(options?: QueryOptions): Promise<boolean> {
+    return requestEndpoint(
+      this.client,
+      "track/get/is_visible",
+      [this.id],
+      options
+    );
   }
 
   // ============ New Getters - Clip Slots ============
 
-  async getFiredSlotIndex(): Promise<number> {
-    const res = await this.client.query(
-      "/live/track/get/fired_slot_index",
-      this.id
+  async getFiredSlotIndex(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/fired_slot_index",
+      [this.id],
+      options
     );
-    return res.args[1] as number;
   }
 
-  async getPlayingSlotIndex(): Promise<number> {
-    const res = await this.client.query(
-      "/live/track/get/playing_slot_index",
-      this.id
+  async getPlayingSlotIndex(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/playing_slot_index",
+      [this.id],
+      options
     );
-    return res.args[1] as number;
   }
 
   // ============ Setters ============
 
   async setName(name: string): Promise<void> {
-    this.client.send("/live/track/set/name", this.id, name);
+    sendEndpoint(this.client, "track/set/name", [this.id, name]);
   }
 
   async setColor(color: number): Promise<void> {
-    this.client.send("/live/track/set/color", this.id, color);
+    sendEndpoint(this.client, "track/set/color", [this.id, color]);
   }
 
   async setColorIndex(colorIndex: number): Promise<void> {
-    this.client.send("/live/track/set/color_index", this.id, colorIndex);
+    sendEndpoint(this.client, "track/set/color_index", [this.id, colorIndex]);
   }
 
   async setMute(mute: boolean): Promise<void> {
-    this.client.send("/live/track/set/mute", this.id, mute ? 1 : 0);
+    sendEndpoint(this.client, "track/set/mute", [this.id, mute]);
   }
 
   async setSolo(solo: boolean): Promise<void> {
-    this.client.send("/live/track/set/solo", this.id, solo ? 1 : 0);
+    sendEndpoint(this.client, "track/set/solo", [this.id, solo]);
   }
 
   async setArm(arm: boolean): Promise<void> {
-    this.client.send("/live/track/set/arm", this.id, arm ? 1 : 0);
+    sendEndpoint(this.client, "track/set/arm", [this.id, arm]);
   }
 
   async setPanning(panning: number): Promise<void> {
-    this.client.send("/live/track/set/panning", this.id, panning);
+    sendEndpoint(this.client, "track/set/panning", [this.id, panning]);
   }
 
   /**
    * Set the mixer volume (0.0 to 1.0, 0.85 = 0dB)
    */
   async setVolume(volume: number): Promise<void> {
-    this.client.send("/live/track/set/volume", this.id, volume);
+    sendEndpoint(this.client, "track/set/volume", [this.id, volume]);
   }
 
   // ============ New Setters - Routing ============
 
   async setInputRoutingChannel(channel: string): Promise<void> {
-    this.client.send("/live/track/set/input_routing_channel", this.id, channel);
+    sendEndpoint(this.client, "track/set/input_routing_channel", [
+      this.id,
+      channel,
+    ]);
   }
 
   async setInputRoutingType(type: string): Promise<void> {
-    this.client.send("/live/track/set/input_routing_type", this.id, type);
+    sendEndpoint(this.client, "track/set/input_routing_type", [this.id, type]);
   }
 
   async setOutputRoutingChannel(channel: string): Promise<void> {
-    this.client.send(
-      "/live/track/set/output_routing_channel",
+    sendEndpoint(this.client, "track/set/output_routing_channel", [
       this.id,
-      channel
-    );
+      channel,
+    ]);
   }
 
   async setOutputRoutingType(type: string): Promise<void> {
-    this.client.send("/live/track/set/output_routing_type", this.id, type);
+    sendEndpoint(this.client, "track/set/output_routing_type", [this.id, type]);
   }
 
   // ============ New Setters - State ============
 
   async setCurrentMonitoringState(state: MonitoringState): Promise<void> {
-    this.client.send(
-      "/live/track/set/current_monitoring_state",
+    sendEndpoint(this.client, "track/set/current_monitoring_state", [
       this.id,
-      state
-    );
+      state,
+    ]);
   }
 
   async setFoldState(folded: boolean): Promise<void> {
-    this.client.send("/live/track/set/fold_state", this.id, folded ? 1 : 0);
+    sendEndpoint(this.client, "track/set/fold_state", [this.id, folded]);
+  }
+
+  // ============ Groups ============
+
+  /**
+   * The group track this track is in, or null at the top level
+   */
+  async getGroupTrack(options?: QueryOptions): Promise<Track | null> {
+    const groupId = await getGroupTrackId(this.client, this.id, options);
+    return groupId >= 0 ? new Track(this.client, groupId) : null;
+  }
+
+  /**
+   * Tracks directly in this group track
+   */
+  async getChildren(options?: QueryOptions): Promise<Track[]> {
+    const groups = await getGroupTrackIds(this.client, options);
+    return groups.flatMap((groupId, i) =>
+      groupId === this.id ? [new Track(this.client, i)] : []
+    );
+  }
+
+  /**
+   * Tracks in this group track and in the groups nested in it, in order
+   */
+  async getDescendants(options?: QueryOptions): Promise<Track[]> {
+    const groups = await getGroupTrackIds(this.client, options);
+    const inside = new Set([this.id]);
+    const descendants: Track[] = [];
+    // Live lists the tracks of a group after it, so one pass is enough
+    groups.forEach((groupId, i) => {
+      if (inside.has(groupId)) {
+        inside.add(i);
+        descendants.push(new Track(this.client, i));
+      }
+    });
+    return descendants;
+  }
+
+  /**
+   * Mute or unmute this track and every track nested in it
+   */
+  async setMuteRecursive(mute: boolean, options?: QueryOptions): Promise<void> {
+    const tracks = [this, ...(await this.getDescendants(options))];
+    await Promise.all(tracks.map((track) => track.setMute(mute)));
   }
 
   // ============ Actions ============
 
   stop(): void {
-    this.client.send("/live/track/stop_all_clips", this.id);
+    sendEndpoint(this.client, "track/stop_all_clips", [this.id]);
+  }
+
+  // ============ Events ============
+
+  /**
+   * Call `handler` with the current value of a property and on every
+   * change. Uses AbletonOSC's start_listen, which is stopped when the last
+   * handler is removed. Returns a function that removes the handler.
+   */
+  on<K extends TrackEvent>(
+    event: K,
+    handler: (value: TrackEvents[K]) => void
+  ): () => void {
+    return ListenerRegistry.for(this.client).listen(
+      `track/get/${event as TrackEvent}`,
+      [this.slot],
+      handler as ListenerCallback
+    );
+  }
+
+  /**
+   * Remove a handler added with `on()`
+   */
+  off<K extends TrackEvent>(
+    event: K,
+    handler: (value: TrackEvents[K]) => void
+  ): void {
+    ListenerRegistry.for(this.client).unlisten(
+      `track/get/${event as TrackEvent}`,
+      [this.slot],
+      handler as ListenerCallback
+    );
+  }
+
+  /**
+   * A property as an async iterator: the current value, then every change.
+   * The listen is removed when the loop exits.
+   */
+  watch<K extends TrackEvent>(
+    event: K,
+    options?: WatchOptions<TrackEvents[K]>
+  ): AsyncIterableIterator<TrackEvents[K]> {
+    return iterate((cb) => this.on(event, cb), options);
   }
 
   // ============ Clips ============
@@ -330,9 +534,24 @@ export class Track {
     return new Clip(this.client, this.id, clipId);
   }
 
-  async getClipNames(): Promise<string[]> {
-    const res = await this.client.query("/live/track/get/clips/name", this.id);
-    return res.args.slice(1) as string[];
+  /**
+   * Names of the clips in each slot; null for empty slots
+   */
+  async getClipNames(options?: QueryOptions): Promise<(string | null)[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/clips/name",
+      [this.id],
+      options
+    );
+  }
+
+  /**
+   * Get the clip with a matching name; empty slots are skipped
+   */
+  async findClip(query: NameQuery, options?: FindOptions): Promise<Clip> {
+    const names = await this.getClipNames(options);
+    return this.getClip(findByName("clip", names, query, options));
   }
 
   // ============ Clip Slots ============
@@ -346,23 +565,21 @@ export class Track {
   /**
    * Get all clips in the arrangement view for this track
    */
-  async getArrangementClips(): Promise<ArrangementClip[]> {
-    const res = await this.client.query(
-      "/live/track/get/arrangement_clips",
-      this.id
+  async getArrangementClips(
+    options?: QueryOptions
+  ): Promise<ArrangementClip[]> {
+    const groups = await requestEndpoint(
+      this.client,
+      "track/get/arrangement_clips",
+      [this.id],
+      options
     );
-    const clips: ArrangementClip[] = [];
-    // Response format: track_id, then groups of: start_time, end_time, name, color
-    const data = res.args.slice(1);
-    for (let i = 0; i < data.length; i += 4) {
-      clips.push({
-        startTime: data[i] as number,
-        endTime: data[i + 1] as number,
-        name: data[i + 2] as string,
-        color: data[i + 3] as number,
-      });
-    }
-    return clips;
+    return groups.map(([startTime, endTime, name, color]) => ({
+      startTime,
+      endTime,
+      name,
+      color,
+    }));
   }
 
   // ============ Devices ============
@@ -371,31 +588,81 @@ export class Track {
     return new Device(this.client, this.id, deviceId);
   }
 
-  async getDeviceNames(): Promise<string[]> {
-    const res = await this.client.query(
-      "/live/track/get/devices/name",
-      this.id
+  async getDeviceNames(options?: QueryOptions): Promise<string[]> {
+    return requestEndpoint(
+      this.client,
+      "track/get/devices/name",
+      [this.id],
+      options
     );
-    return res.args.slice(1) as string[];
   }
 
-  async getNumDevices(): Promise<number> {
-    const res = await this.client.query("/live/track/get/num_devices", this.id);
-    return res.args[1] as number;
+  async getNumDevices(options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/num_devices",
+      [this.id],
+      options
+    );
+  }
+
+  /**
+   * Get the device with a matching name
+   */
+  async findDevice(query: NameQuery, options?: FindOptions): Promise<Device> {
+    const names = await this.getDeviceNames(options);
+    return this.getDevice(findByName("device", names, query, options));
   }
 
   // ============ Send ============
 
-  async getSend(sendIndex: number): Promise<number> {
-    const res = await this.client.query(
-      "/live/track/get/send",
-      this.id,
-      sendIndex
+  async getSend(sendIndex: number, options?: QueryOptions): Promise<number> {
+    return requestEndpoint(
+      this.client,
+      "track/get/send",
+      [this.id, sendIndex],
+      options
     );
-    return res.args[2] as number;
   }
 
   async setSend(sendIndex: number, value: number): Promise<void> {
-    this.client.send("/live/track/set/send", this.id, sendIndex, value);
+    sendEndpoint(this.client, "track/set/send", [this.id, sendIndex, value]);
   }
 }
+
+/**
+ * Index of every track's group track, or -1 for top-level tracks
+ */
+export async function getGroupTrackIds(
+  client: OSCClient,
+  options?: QueryOptions
+): Promise<number[]> {
+  const count = await requestEndpoint(
+    client,
+    "song/get/num_tracks",
+    [],
+    options
+  );
+  return Promise.all(
+    Array.from({ length: count }, (_, i) => getGroupTrackId(client, i, options))
+  );
+}
+
+/**
+ * Index of a track's group track, or -1 for a top-level track. Only grouped
+ * tracks are asked for their group track.
+ */
+async function getGroupTrackId(
+  client: OSCClient,
+  trackId: number,
+  options?: QueryOptions
+): Promise<number> {
+  const grouped = await requestEndpoint(
+    client,
+    "track/get/is_grouped",
+    [trackId],
+    options
+  );
+  if (!grouped) return -1;
+  return requestEndpoint(client, "track/get/group_track", [trackId], options);
+}
@@ -0,0 +1,602 @@
+/**
+ * Transports carry encoded OSC packets between OSCClient and AbletonOSC
+ */
+
+import dgram from "node:dgram";
+import dns from "node:dns/promises";
+import net from "node:net";
+import { URL } from "node:url";
+import { EventEmitter } from "node:events";
+import { NotConnectedError } from "./errors.js";
+
+export interface RemoteInfo {
+  address: string;
+  port: number;
+}
+
+export interface OSCTransportEvents {
+  packet: [Buffer, RemoteInfo | undefined];
+  error: [Error];
+  close: [];
+}
+
+/**
+ * A bidirectional channel for raw OSC packets
+ */
+export interface OSCTransport extends EventEmitter<OSCTransportEvents> {
+  /** Whether the transport can currently send */
+  readonly isOpen: boolean;
+  /** Where sent packets go, for transports with a single peer */
+  readonly destination?: RemoteInfo;
+  open(): Promise<void>;
+  close(): void;
+  send(data: Buffer): void;
+}
+
+export type TransportType = "udp" | "udp6" | "tcp" | "websocket";
+
+export interface TransportOptions {
+  host: string;
+  sendPort: number;
+  receivePort: number;
+}
+
+/**
+ * Create one of the built-in transports
+ */
+export function createTransport(
+  type: TransportType,
+  options: TransportOptions
+): OSCTransport {
+  switch (type) {
+    case "udp":
+      return new UDPTransport({ ...options, type: "udp4" });
+    case "udp6":
+      return new UDPTransport({ ...options, type: "udp6" });
+    case "tcp":
+      return new TCPTransport({ host: options.host, port: options.sendPort });
+    case "websocket":
+      return new WebSocketTransport({
+        url: `ws://${options.host}:${options.sendPort}`,
+      });
+  }
+}
+
+// ============ UDP ============
+
+export interface UDPTransportOptions extends TransportOptions {
+  /** Socket type (default: udp4) */
+  type?: "udp4" | "udp6";
+}
+
+/**
+ * Plain OSC over UDP, as spoken by AbletonOSC
+ *
+ * Transports with the same receive port share one socket; incoming packets
+ * are routed by the remote address and port they came from.
+ */
+export class UDPTransport
+  extends EventEmitter<OSCTransportEvents>
+  implements OSCTransport
+{
+  private host: string;
+  private sendPort: number;
+  private receivePort: number;
+  private type: "udp4" | "udp6";
+  private shared: SharedUDPSocket | null = null;
+  private route = "";
+  // Bumped by close(), so an open() still resolving knows it was cancelled
+  private generation = 0;
+
+  constructor(options: UDPTransportOptions) {
+    super();
+    this.host = options.host;
+    this.sendPort = options.sendPort;
+    this.receivePort = options.receivePort;
+    this.type = options.type ?? "udp4";
+  }
+
+  get isOpen(): boolean {
+    return this.shared !== null;
+  }
+
+  get destination(): RemoteInfo {
+    return { address: this.host, port: this.sendPort };
+  }
+
+  async open(): Promise<void> {
+    // Already open: keep the one route entry instead of adding another
+    if (this.shared) return;
+    const generation = this.generation;
+
+    const { address } = await dns.lookup(this.host, {
+      family: this.type === "udp6" ? 6 : 4,
+    });
+    const route = routeKey(address, this.sendPort);
+    const shared = await SharedUDPSocket.acquire(this.type, this.receivePort);
+    // Closed, or opened by a concurrent call, while resolving
+    if (this.generation !== generation || this.shared) {
+      shared.release();
+      return;
+    }
+
+    this.route = route;
+    shared.add(this, route);
+    this.shared = shared;
+  }
+
+  close(): void {
+    this.generation++;
+    if (this.shared) {
+      const shared = this.shared;
+      this.shared = null;
+      shared.remove(this, this.route);
+      this.emit("close");
+    }
+  }
+
+  /**
+   * The shared socket closed underneath this transport
+   * @internal
+   */
+  detach(shared: SharedUDPSocket): void {
+    if (this.shared === shared) {
+      this.shared = null;
+      this.emit("close");
+    }
+  }
+
+  send(data: Buffer): void {
+    if (!this.shared) {
+      throw new NotConnectedError();
+    }
+    this.shared.send(data, this.sendPort, this.host);
+  }
+}
+
+function routeKey(address: string, port: number): string {
+  // Replies to a udp6 socket from IPv4 hosts arrive as ::ffff:a.b.c.d
+  return `${address.replace(/^::ffff:/, "")}:${port}`;
+}
+
+/**
+ * A bound UDP socket shared by every UDPTransport on the same receive port
+ */
+class SharedUDPSocket {
+  private static pool: Map<string, Promise<SharedUDPSocket>> = new Map();
+
+  private poolKey: string;
+  private socket: dgram.Socket;
+  private routes: Map<string, Set<UDPTransport>> = new Map();
+  private members: Set<UDPTransport> = new Set();
+  private closed = false;
+
+  private constructor(poolKey: string, socket: dgram.Socket) {
+    this.poolKey = poolKey;
+    this.socket = socket;
+
+    socket.on("error", (err) => {
+      for (const member of this.members) {
+        member.emit("error", err);
+      }
+    });
+
+    socket.on("message", (data, rinfo) => {
+      const remote: RemoteInfo = { address: rinfo.address, port: rinfo.port };
+      for (const member of this.route(routeKey(rinfo.address, rinfo.port))) {
+        member.emit("packet", data, remote);
+      }
+    });
+
+    // Closed other than by the last remove(): drop every route with it
+    socket.on("close", () => {
+      if (this.closed) return;
+      this.closed = true;
+      SharedUDPSocket.pool.delete(this.poolKey);
+      const members = [...this.members];
+      this.members.clear();
+      this.routes.clear();
+      for (const member of members) {
+        member.detach(this);
+      }
+    });
+  }
+
+  /**
+   * Get the socket bound to a port, binding it on first use
+   */
+  static acquire(
+    type: "udp4" | "udp6",
+    port: number
+  ): Promise<SharedUDPSocket> {
+    const poolKey = `${type}:${port}`;
+    let entry = SharedUDPSocket.pool.get(poolKey);
+    if (!entry) {
+      entry = new Promise<SharedUDPSocket>((resolve, reject) => {
+        const socket = dgram.createSocket(type);
+        const onBindError = (err: Error) => {
+          SharedUDPSocket.pool.delete(poolKey);
+          socket.close();
+          reject(err);
+        };
+        socket.once("error", onBindError);
+        socket.bind(port, () => {
+          socket.off("error", onBindError);
+          resolve(new SharedUDPSocket(poolKey, socket));
+        });
+      });
+      SharedUDPSocket.pool.set(poolKey, entry);
+    }
+    return entry;
+  }
+
+  add(transport: UDPTransport, route: string): void {
+    this.members.add(transport);
+    let set = this.routes.get(route);
+    if (!set) {
+      set = new Set();
+      this.routes.set(route, set);
+    }
+    set.add(transport);
+  }
+
+  remove(transport: UDPTransport, route: string): void {
+    this.members.delete(transport);
+    const set = this.routes.get(route);
+    set?.delete(transport);
+    if (set?.size === 0) {
+      this.routes.delete(route);
+    }
+
+    this.release();
+  }
+
+  /**
+   * Close the socket once no transport uses it
+   */
+  release(): void {
+    if (this.members.size === 0 && !this.closed) {
+      this.closed = true;
+      SharedUDPSocket.pool.delete(this.poolKey);
+      this.socket.close();
+    }
+  }
+
+  send(data: Buffer, port: number, host: string): void {
+    this.socket.send(data, port, host);
+  }
+
+  /**
+   * Transports a packet from `key` belongs to. With a single transport on
+   * the socket, everything goes to it, whatever port Live replies from.
+   */
+  private route(key: string): Iterable<UDPTransport> {
+    const exact = this.routes.get(key);
+    if (exact) {
+      return exact;
+    }
+    if (this.members.size === 1) {
+      return this.members;
+    }
+
+    // Fall back to the remote host alone, in case Live replies from another port
+    const host = key.slice(0, key.lastIndexOf(":"));
+    for (const [route, set] of this.routes) {
+      if (route.slice(0, route.lastIndexOf(":")) === host) {
+        return set;
+      }
+    }
+    return [];
+  }
+}
+
+// ============ TCP (SLIP framed) ============
+
+const SLIP_END = 0xc0;
+const SLIP_ESC = 0xdb;
+const SLIP_ESC_END = 0xdc;
+const SLIP_ESC_ESC = 0xdd;
+
+/**
+ * Frame a packet with double-ended SLIP, as required by OSC 1.1 over streams
+ */
+export function slipEncode(data: Buffer): Buffer {
+  const out: number[] = [SLIP_END];
+  for (const byte of data) {
+    if (byte === SLIP_END) {
+      out.push(SLIP_ESC, SLIP_ESC_END);
+    } else if (byte === SLIP_ESC) {
+      out.push(SLIP_ESC, SLIP_ESC_ESC);
+    } else {
+      out.push(byte);
+    }
+  }
+  out.push(SLIP_END);
+  return Buffer.from(out);
+}
+
+/**
+ * Incremental SLIP decoder: feed stream chunks, get complete packets back
+ */
+export class SlipDecoder {
+  private frame: number[] = [];
+  private escaping = false;
+
+  push(chunk: Buffer): Buffer[] {
+    const packets: Buffer[] = [];
+
+    for (const byte of chunk) {
+      if (this.escaping) {
+        this.escaping = false;
+        if (byte === SLIP_ESC_END) {
+          this.frame.push(SLIP_END);
+        } else if (byte === SLIP_ESC_ESC) {
+          this.frame.push(SLIP_ESC);
+        } else {
+          this.frame.push(byte);
+        }
+      } else if (byte === SLIP_ESC) {
+        this.escaping = true;
+      } else if (byte === SLIP_END) {
+        if (this.frame.length > 0) {
+          packets.push(Buffer.from(this.frame));
+          this.frame = [];
+        }
+      } else {
+        this.frame.push(byte);
+      }
+    }
+
+    return packets;
+  }
+}
+
+export interface TCPTransportOptions {
+  host: string;
+  port: number;
+}
+
+/**
+ * OSC over a TCP stream with SLIP framing (e.g. behind a TCP/UDP bridge)
+ */
+export class TCPTransport
+  extends EventEmitter<OSCTransportEvents>
+  implements OSCTransport
+{
+  private host: string;
+  private port: number;
+  private socket: net.Socket | null = null;
+
+  constructor(options: TCPTransportOptions) {
+    super();
+    this.host = options.host;
+    this.port = options.port;
+  }
+
+  get isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  get destination(): RemoteInfo {
+    return { address: this.host, port: this.port };
+  }
+
+  async open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const decoder = new SlipDecoder();
+      const remote: RemoteInfo = { address: this.host, port: this.port };
+      const socket = net.connect(this.port, this.host);
+
+      socket.on("connect", () => {
+        this.socket = socket;
+        resolve();
+      });
+
+      socket.on("error", (err) => {
+        this.emit("error", err);
+        reject(err);
+      });
+
+      socket.on("data", (chunk) => {
+        for (const packet of decoder.push(chunk)) {
+          this.emit("packet", packet, remote);
+        }
+      });
+
+      socket.on("close", () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.emit("close");
+      });
+    });
+  }
+
+  close(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.end();
+    }
+  }
+
+  send(data: Buffer): void {
+    if (!this.socket) {
+      throw new NotConnectedError();
+    }
+    this.socket.write(slipEncode(data));
+  }
+}
+
+// ============ WebSocket ============
+
+/**
+ * The subset of the standard WebSocket API used by WebSocketTransport
+ */
+export interface WebSocketLike {
+  binaryType: string;
+  readonly readyState: number;
+  send(data: Uint8Array): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface WebSocketTransportOptions {
+  url: string;
+  /** WebSocket implementation (default: the global WebSocket) */
+  WebSocket?: WebSocketConstructor;
+}
+
+const WS_OPEN = 1;
+
+/**
+ * OSC over WebSocket, one packet per binary message
+ */
+export class WebSocketTransport
+  extends EventEmitter<OSCTransportEvents>
+  implements OSCTransport
+{
+  private url: string;
+  private WebSocketImpl?: WebSocketConstructor;
+  private socket: WebSocketLike | null = null;
+
+  constructor(options: WebSocketTransportOptions) {
+    super();
+    this.url = options.url;
+    this.WebSocketImpl =
+      options.WebSocket ??
+      (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WS_OPEN;
+  }
+
+  get destination(): RemoteInfo {
+    const url = new URL(this.url);
+    return { address: url.hostname, port: Number(url.port) };
+  }
+
+  async open(): Promise<void> {
+    if (!this.WebSocketImpl) {
+      throw new Error("No WebSocket implementation available");
+    }
+
+    const remote = this.destination;
+
+    return new Promise((resolve, reject) => {
+      const socket = new this.WebSocketImpl!(this.url);
+      socket.binaryType = "arraybuffer";
+      this.socket = socket;
+
+      socket.onopen = () => resolve();
+
+      socket.onerror = () => {
+        const err = new Error(`WebSocket error on ${this.url}`);
+        this.emit("error", err);
+        reject(err);
+      };
+
+      socket.onmessage = (event) => {
+        const data = event.data;
+        if (data instanceof ArrayBuffer) {
+          this.emit("packet", Buffer.from(data), remote);
+        } else if (data instanceof Uint8Array) {
+          this.emit("packet", Buffer.from(data), remote);
+        }
+      };
+
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.emit("close");
+      };
+    });
+  }
+
+  close(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  send(data: Buffer): void {
+    if (!this.socket || !this.isOpen) {
+      throw new NotConnectedError();
+    }
+    this.socket.send(data);
+  }
+}
+
+// ============ In-memory loopback ============
+
+/**
+ * In-process transport; create connected ends with LoopbackTransport.pair()
+ */
+export class LoopbackTransport
+  extends EventEmitter<OSCTransportEvents>
+  implements OSCTransport
+{
+  private peer: LoopbackTransport | null = null;
+  private opened = false;
+  private readonly remote: RemoteInfo;
+
+  constructor(name = "loopback") {
+    super();
+    this.remote = { address: name, port: 0 };
+  }
+
+  /**
+   * Create two transports wired to each other
+   */
+  static pair(): [LoopbackTransport, LoopbackTransport] {
+    const a = new LoopbackTransport("loopback-a");
+    const b = new LoopbackTransport("loopback-b");
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  get destination(): RemoteInfo | undefined {
+    return this.peer?.remote;
+  }
+
+  async open(): Promise<void> {
+    this.opened = true;
+  }
+
+  close(): void {
+    if (this.opened) {
+      this.opened = false;
+      this.emit("close");
+    }
+  }
+
+  send(data: Buffer): void {
+    if (!this.opened) {
+      throw new NotConnectedError();
+    }
+
+    const peer = this.peer;
+    const remote = this.remote;
+    const copy = Buffer.from(data);
+    // Deliver asynchronously, like a real network
+    setTimeout(() => {
+      if (peer?.opened) {
+        peer.emit("packet", copy, remote);
+      }
+    }, 0);
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AbletonTimeoutError } from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("query options", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect({ retry: { attempts: 1 } });
+  });
+
+  afterEach(() => session.close());
+
+  it("reject with the abort reason when the signal fires", async () => {
+    const { server, ableton } = session;
+    server.faults = { delay: 50 };
+    const controller = new AbortController();
+
+    const tempo = ableton.song.getTempo({ signal: controller.signal });
+    controller.abort(new Error("view closed"));
+    await assert.rejects(tempo, /view closed/);
+
+    // The late reply finds no handler and a fresh query works as before
+    await settle(80);
+    server.faults = {};
+    assert.equal(await ableton.song.getTempo(), 120);
+  });
+
+  it("reject at once when the signal already fired", async () => {
+    const { ableton } = session;
+    const sent: Buffer[] = [];
+    ableton.osc.on("sent", (data: Buffer) => sent.push(data));
+
+    await assert.rejects(
+      ableton.song.getTempo({ signal: AbortSignal.abort() }),
+      { name: "AbortError" }
+    );
+    assert.equal(sent.length, 0);
+  });
+
+  it("use the per-call timeout instead of the client's", async () => {
+    const { server, ableton } = session;
+    server.addTrack({ name: "Bass" });
+    server.faults = { dropRate: 1 };
+    const started = Date.now();
+
+    await assert.rejects(
+      ableton.getTrack(0).getVolume({ timeout: 50 }),
+      (err: AbletonTimeoutError) => {
+        assert.ok(err instanceof AbletonTimeoutError);
+        assert.equal(err.address, "/live/track/get/volume");
+        return true;
+      }
+    );
+    assert.ok(Date.now() - started < 500);
+  });
+});
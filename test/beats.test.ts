@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("beat and playing position", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const track = session.server.addTrack({ name: "Drums" });
+    session.server.addScene();
+    session.server.addClip(track, 0, { name: "Loop" });
+    await settle();
+  });
+
+  afterEach(() => session.close());
+
+  it("route every beat to the callbacks, repeats included", async () => {
+    const { server, ableton } = session;
+    const beats: number[] = [];
+    const remove = ableton.song.addBeatListener((beat) => beats.push(beat));
+    await settle();
+    assert.ok(server.isListening("/live/song/get/beat"));
+
+    for (const beat of [0, 1, 1, 2]) {
+      server.push("/live/song/get/beat", beat);
+    }
+    await settle();
+    assert.deepEqual(beats, [0, 1, 1, 2]);
+
+    remove();
+    await settle();
+    assert.ok(!server.isListening("/live/song/get/beat"));
+  });
+
+  it("keep the listen running with startListenBeat", async () => {
+    const { server, ableton } = session;
+    ableton.song.startListenBeat();
+    const remove = ableton.song.addBeatListener(() => {});
+    remove();
+    await settle();
+    assert.ok(server.isListening("/live/song/get/beat"));
+
+    ableton.song.stopListenBeat();
+    await settle();
+    assert.ok(!server.isListening("/live/song/get/beat"));
+  });
+
+  it("still accept beats forwarded through notifyBeat", async () => {
+    const { ableton } = session;
+    const beats: number[] = [];
+    ableton.song.addBeatListener((beat) => beats.push(beat));
+
+    ableton.song.notifyBeat(4);
+    assert.deepEqual(beats, [4]);
+  });
+
+  it("iterate playing positions until the loop exits", async () => {
+    const { server, ableton } = session;
+    const clip = ableton.getTrack(0).getClip(0);
+    const positions: number[] = [];
+
+    const done = (async () => {
+      for await (const position of clip.playingPositions()) {
+        positions.push(position);
+        if (positions.length === 3) break;
+      }
+    })();
+    await settle();
+    assert.ok(server.isListening("/live/clip/get/playing_position", 0, 0));
+
+    server.push("/live/clip/get/playing_position", 0, 0, 1);
+    server.push("/live/clip/get/playing_position", 0, 0, 1.5);
+    await done;
+    await settle();
+
+    assert.deepEqual(positions, [0, 1, 1.5]);
+    assert.ok(!server.isListening("/live/clip/get/playing_position", 0, 0));
+  });
+});
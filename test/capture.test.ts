@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+import {
+  parseCapture,
+  serializeCaptureRecord,
+  type CaptureRecord,
+  type OSCMessage,
+} from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+function collect(stream: PassThrough): () => CaptureRecord[] {
+  let text = "";
+  stream.on("data", (chunk: Buffer) => (text += chunk.toString()));
+  return () => parseCapture(text);
+}
+
+describe("packet capture", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    await settle();
+  });
+
+  afterEach(() => session.close());
+
+  it("record both directions with the remote end", async () => {
+    const { ableton } = session;
+    const stream = new PassThrough();
+    const records = collect(stream);
+    const recorder = ableton.record(stream);
+
+    assert.equal(await ableton.song.getTempo(), 120);
+    await recorder.stop();
+
+    const [out, reply] = records();
+    assert.equal(recorder.count, 2);
+    assert.equal(out.direction, "out");
+    assert.deepEqual(out.messages, [
+      { address: "/live/song/get/tempo", args: [] },
+    ]);
+    assert.equal(reply.direction, "in");
+    assert.deepEqual(reply.messages[0].args, [120]);
+    // The server end of the loopback pair, both as destination and sender
+    assert.deepEqual(out.remote, { address: "loopback-b", port: 0 });
+    assert.deepEqual(reply.remote, { address: "loopback-b", port: 0 });
+  });
+
+  it("keep values JSON cannot hold", () => {
+    const record: CaptureRecord = {
+      time: 1,
+      direction: "in",
+      messages: [
+        {
+          address: "/x",
+          args: [1n, Infinity, Buffer.from([1, 2]), ["nested", -Infinity]],
+        },
+      ],
+    };
+
+    const [parsed] = parseCapture(serializeCaptureRecord(record) + "\n\n");
+    assert.deepEqual(parsed.messages, record.messages);
+    assert.equal(parsed.data, undefined);
+  });
+
+  it("replay incoming packets to listeners", async () => {
+    const { ableton } = session;
+    const seen: OSCMessage[] = [];
+    ableton.osc.on("message", (msg: OSCMessage) => seen.push(msg));
+
+    const count = await ableton.replay(
+      [
+        { time: 0, direction: "out", messages: [{ address: "/a", args: [] }] },
+        { time: 0, direction: "in", messages: [{ address: "/b", args: [1] }] },
+        { time: 20, direction: "in", messages: [{ address: "/c", args: [] }] },
+      ],
+      { speed: 0 }
+    );
+
+    assert.equal(count, 2);
+    assert.deepEqual(
+      seen.map((msg) => msg.address),
+      ["/b", "/c"]
+    );
+  });
+
+  it("re-send outgoing packets", async () => {
+    const { server, ableton } = session;
+    const records: CaptureRecord[] = [
+      {
+        time: 0,
+        direction: "out",
+        messages: [{ address: "/live/song/set/tempo", args: [98] }],
+      },
+    ];
+
+    await ableton.replay(records, { mode: "send" });
+    await settle();
+    assert.equal(server.set.song.tempo, 98);
+  });
+
+  it("stop recording when the file cannot be written", async () => {
+    const { ableton } = session;
+    const errors: Error[] = [];
+    ableton.on("error", (err) => errors.push(err));
+    const recorder = ableton.record("/nonexistent/dir/show.jsonl");
+
+    await settle();
+    await assert.rejects(recorder.stop(), { code: "ENOENT" });
+    assert.equal(errors.length, 1);
+    assert.equal(recorder.error, errors[0]);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Ableton,
+  LoopbackTransport,
+  MockAbletonServer,
+  type ConnectionState,
+} from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+const FAST = { heartbeatInterval: 20, heartbeatTimeout: 50, offlineAfter: 2 };
+
+// Heartbeat timing varies with load: wait for the state, not a fixed time
+function reach(ableton: Ableton, state: ConnectionState): Promise<void> {
+  if (ableton.state === state) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`still ${ableton.state}, expected ${state}`)),
+      2000
+    );
+    ableton.on("stateChange", function onChange(next) {
+      if (next !== state) return;
+      clearTimeout(timer);
+      ableton.off("stateChange", onChange);
+      resolve();
+    });
+  });
+}
+
+describe("connection monitor", () => {
+  let session: Session;
+
+  afterEach(() => session.close());
+
+  it("goes offline when Live stops answering, and online again", async () => {
+    session = await connect({ connection: FAST, retry: { attempts: 1 } });
+    const { server, ableton } = session;
+    await reach(ableton, "online");
+    const states: ConnectionState[] = [];
+    ableton.on("stateChange", (state) => states.push(state));
+    assert.ok(ableton.rtt !== null);
+
+    server.faults = { dropRate: 1 };
+    await reach(ableton, "offline");
+    assert.equal(ableton.connected, false);
+
+    server.faults = {};
+    await reach(ableton, "online");
+    assert.deepEqual(states, ["degraded", "offline", "online"]);
+  });
+
+  it("rebinds after a socket error, without reporting failed attempts", async () => {
+    const [clientEnd, serverEnd] = LoopbackTransport.pair();
+    const server = new MockAbletonServer({ transport: serverEnd });
+    await server.start();
+
+    let failures = 0;
+    const open = clientEnd.open.bind(clientEnd);
+    clientEnd.open = async () => {
+      if (failures > 0) {
+        failures--;
+        const err = new Error("connect ECONNREFUSED");
+        clientEnd.emit("error", err);
+        throw err;
+      }
+      return open();
+    };
+
+    const ableton = new Ableton({
+      transport: clientEnd,
+      connection: { ...FAST, reconnectDelay: 10 },
+    });
+    session = {
+      server,
+      ableton,
+      close() {
+        ableton.disconnect();
+        server.stop();
+      },
+    };
+    const errors: Error[] = [];
+    ableton.on("error", (err) => errors.push(err));
+    await ableton.connect();
+
+    failures = 2;
+    clientEnd.close();
+    clientEnd.emit("error", new Error("socket closed"));
+    await settle(150);
+
+    assert.equal(failures, 0);
+    assert.ok(clientEnd.isOpen);
+    assert.equal(ableton.state, "online");
+    assert.deepEqual(
+      errors.map((err) => err.message),
+      ["socket closed"]
+    );
+  });
+});
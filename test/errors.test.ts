@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AbletonError,
+  AbletonRemoteError,
+  AbletonTimeoutError,
+  NotConnectedError,
+  OSCClient,
+} from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("/live/error replies", () => {
+  let session: Session;
+  let reported: AbletonRemoteError[];
+
+  beforeEach(async () => {
+    session = await connect();
+    session.server.addTrack({ name: "Bass" });
+    session.server.addScene();
+    reported = [];
+    session.ableton.on("remoteError", (err) => reported.push(err));
+  });
+
+  afterEach(() => session.close());
+
+  it("reject the query the error names", async () => {
+    const { server, ableton } = session;
+    server.failNext("/live/clip/get/name", "No clip in slot");
+
+    const started = Date.now();
+    await assert.rejects(
+      ableton.getTrack(0).getClip(0).getName(),
+      (err: unknown) =>
+        err instanceof AbletonRemoteError &&
+        err.address === "/live/clip/get/name" &&
+        err.remoteMessage === "/live/clip/get/name: No clip in slot"
+    );
+    assert.ok(Date.now() - started < 500, "rejected before the timeout");
+  });
+
+  it("leave unrelated pending queries alone", async () => {
+    const { server, ableton } = session;
+    server.failNext("/live/song/set/tempo", "Tempo out of range");
+
+    await ableton.song.setTempo(1000);
+    assert.equal(await ableton.song.getTempo(), 120);
+
+    await settle();
+    assert.equal(reported.length, 1);
+    assert.equal(reported[0].address, "/live/song/set/tempo");
+  });
+
+  it("naming no address are reported, not matched to a query", async () => {
+    const { server, ableton } = session;
+    server.faults = { delay: 50 };
+
+    const tempo = ableton.song.getTempo();
+    await settle(10);
+    server.push(
+      "/live/error",
+      "Error handling OSC message: list index out of range"
+    );
+
+    assert.equal(await tempo, 120);
+    assert.equal(reported.length, 1);
+    assert.equal(reported[0].address, undefined);
+    assert.equal(
+      reported[0].remoteMessage,
+      "Error handling OSC message: list index out of range"
+    );
+  });
+});
+
+describe("error classes", () => {
+  it("carry the address, arguments and elapsed time", async () => {
+    const session = await connect({ retry: { attempts: 1 } });
+    session.server.faults = { dropRate: 1 };
+    try {
+      await assert.rejects(
+        session.ableton.song.getTempo({ timeout: 50 }),
+        (err: unknown) =>
+          err instanceof AbletonTimeoutError &&
+          err instanceof AbletonError &&
+          err.address === "/live/song/get/tempo" &&
+          err.elapsed! >= 50
+      );
+    } finally {
+      session.close();
+    }
+  });
+
+  it("report queries on a closed transport", async () => {
+    const client = new OSCClient({ host: "127.0.0.1" });
+    await assert.rejects(client.query("/live/test"), NotConnectedError);
+  });
+});
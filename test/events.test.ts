@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("object events", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const track = session.server.addTrack({ name: "Bass" });
+    session.server.addScene();
+    session.server.addClip(track, 0, { name: "Riff" });
+    session.server.addDevice(track, { name: "Filter" }, [
+      { name: "Cutoff", value: 0.5 },
+    ]);
+  });
+
+  afterEach(() => session.close());
+
+  it("reports the current value, then changes", async () => {
+    const { server, ableton } = session;
+    const values: boolean[] = [];
+    ableton.getTrack(0).on("mute", (mute) => values.push(mute));
+    await settle();
+
+    server.apply("/live/track/set/mute", 0, 1);
+    await settle();
+
+    assert.deepEqual(values, [false, true]);
+  });
+
+  it("listens once however many handlers there are", async () => {
+    const { server, ableton } = session;
+    const track = ableton.getTrack(0);
+    const first = () => {};
+    const second = () => {};
+    track.on("solo", first);
+    track.on("solo", second);
+    await settle();
+    assert.ok(server.isListening("/live/track/get/solo", 0));
+
+    track.off("solo", first);
+    await settle();
+    assert.ok(server.isListening("/live/track/get/solo", 0));
+
+    track.off("solo", second);
+    await settle();
+    assert.ok(!server.isListening("/live/track/get/solo", 0));
+  });
+
+  it("stops listening through the returned function", async () => {
+    const { server, ableton } = session;
+    const names: string[] = [];
+    const off = ableton
+      .getTrack(0)
+      .getClip(0)
+      .on("name", (name) => names.push(name));
+    await settle();
+    assert.ok(server.isListening("/live/clip/get/name", 0, 0));
+
+    off();
+    await settle();
+    server.apply("/live/clip/set/name", 0, 0, "Hook");
+    await settle();
+
+    assert.ok(!server.isListening("/live/clip/get/name", 0, 0));
+    assert.deepEqual(names, ["Riff"]);
+  });
+
+  it("reports clip slots and device parameters", async () => {
+    const { server, ableton } = session;
+    const hasClip: boolean[] = [];
+    const cutoff: number[] = [];
+    ableton
+      .getTrack(0)
+      .getClipSlot(0)
+      .on("has_clip", (value) => hasClip.push(value));
+    // Parameter 0 is "Device On", as in Live
+    ableton
+      .getTrack(0)
+      .getDevice(0)
+      .on("parameter", 1, (value) => cutoff.push(value));
+    await settle();
+    assert.ok(server.isListening("/live/clip_slot/get/has_clip", 0, 0));
+    assert.ok(server.isListening("/live/device/get/parameter/value", 0, 0, 1));
+
+    server.apply("/live/device/set/parameter/value", 0, 0, 1, 0.75);
+    await settle();
+
+    assert.deepEqual(hasClip, [true]);
+    assert.deepEqual(cutoff, [0.5, 0.75]);
+  });
+});
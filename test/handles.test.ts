@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StaleHandleError } from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("stable handles", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    session.server.addTrack({ name: "Drums" });
+    session.server.addTrack({ name: "Bass" });
+    await session.ableton.refreshHandles();
+  });
+
+  afterEach(() => session.close());
+
+  it("follow tracks created before them", async () => {
+    const { ableton } = session;
+    const bass = ableton.getTrack(1);
+
+    ableton.createMidiTrack(0);
+
+    assert.equal(bass.id, 2);
+    assert.equal(await bass.getName(), "Bass");
+  });
+
+  it("become stale when their track is deleted", () => {
+    const { ableton } = session;
+    const drums = ableton.getTrack(0);
+    const bass = ableton.getTrack(1);
+
+    ableton.deleteTrack(0);
+
+    assert.throws(() => drums.id, StaleHandleError);
+    assert.equal(bass.id, 0);
+  });
+
+  it("find their track again after changes in Live", async () => {
+    const { server, ableton } = session;
+    const bass = ableton.getTrack(1);
+
+    server.set.tracks.reverse();
+    await ableton.refreshHandles();
+
+    assert.equal(bass.id, 0);
+    assert.equal(await bass.getName(), "Bass");
+  });
+
+  it("find a renamed track while others were added", async () => {
+    const { server, ableton } = session;
+    const bass = ableton.getTrack(1);
+
+    server.apply("/live/song/create_midi_track", 0);
+    server.set.tracks[2].props.name = "Sub";
+    await ableton.refreshHandles();
+
+    assert.equal(bass.id, 2);
+    assert.equal(await bass.getName(), "Sub");
+  });
+
+  it("become stale when their track was deleted in Live", async () => {
+    const { server, ableton } = session;
+    server.addTrack({ name: "Keys" });
+    await ableton.refreshHandles();
+    const bass = ableton.getTrack(1);
+    const keys = ableton.getTrack(2);
+
+    // Keys now sits where Bass was, but it is not a renamed Bass
+    server.apply("/live/song/delete_track", 1);
+    await ableton.refreshHandles();
+
+    assert.equal(bass.stale, true);
+    assert.equal(keys.id, 1);
+  });
+
+  it("move their listens along with the track", async () => {
+    const { server, ableton } = session;
+    const bass = ableton.getTrack(1);
+    const values: boolean[] = [];
+    const handler = (mute: boolean) => values.push(mute);
+    bass.on("mute", handler);
+    await settle();
+
+    ableton.createMidiTrack(0);
+    await settle();
+    assert.ok(server.isListening("/live/track/get/mute", 2));
+    assert.ok(!server.isListening("/live/track/get/mute", 1));
+
+    server.apply("/live/track/set/mute", 2, 1);
+    await settle();
+    assert.deepEqual(values, [false, true]);
+
+    bass.off("mute", handler);
+    await settle();
+    assert.ok(!server.isListening("/live/track/get/mute", 2));
+  });
+
+  it("end their listens when the track is deleted", async () => {
+    const { server, ableton } = session;
+    ableton.getTrack(0).on("mute", () => {});
+    await settle();
+
+    ableton.deleteTrack(0);
+    await settle();
+
+    assert.ok(!server.isListening("/live/track/get/mute", 0));
+  });
+});
+
+describe("stable handles in group tracks", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const { server } = session;
+    server.addTrack({ name: "Drums", is_foldable: true });
+    server.addTrack({ name: "Kick", group_track: 0 });
+    server.addTrack({ name: "Snare", group_track: 0 });
+    server.addTrack({ name: "Bass" });
+    await session.ableton.refreshHandles();
+  });
+
+  afterEach(() => session.close());
+
+  it("follow a group track duplicated with the tracks in it", async () => {
+    const { server, ableton } = session;
+    const kick = ableton.getTrack(1);
+    const bass = ableton.getTrack(3);
+
+    ableton.duplicateTrack(0);
+    await settle();
+
+    assert.deepEqual(
+      server.set.tracks.map((track) => track.props.name),
+      ["Drums", "Kick", "Snare", "Drums", "Kick", "Snare", "Bass"]
+    );
+    assert.equal(kick.id, 1);
+    assert.equal(bass.id, 6);
+    assert.equal((await ableton.getTrack(4).getGroupTrack())?.id, 3);
+  });
+
+  it("become stale with the group track they were in", async () => {
+    const { ableton } = session;
+    const snare = ableton.getTrack(2);
+    const bass = ableton.getTrack(3);
+
+    ableton.deleteTrack(0);
+    await settle();
+
+    assert.equal(snare.stale, true);
+    assert.equal(bass.id, 0);
+    assert.equal(await bass.getName(), "Bass");
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Shared setup for tests: an Ableton client wired to a MockAbletonServer
+ */
+
+import {
+  Ableton,
+  MockAbletonServer,
+  type AbletonOptions,
+  type MockAbletonServerOptions,
+} from "../src/index.js";
+
+export interface Session {
+  server: MockAbletonServer;
+  ableton: Ableton;
+  close(): void;
+}
+
+/**
+ * A connected client and the mock server it talks to over loopback
+ */
+export async function connect(
+  options: Omit<AbletonOptions, "transport"> = {},
+  serverOptions: Omit<MockAbletonServerOptions, "transport" | "port"> = {}
+): Promise<Session> {
+  const { server, transport } = await MockAbletonServer.loopback(serverOptions);
+  const ableton = new Ableton({ timeout: 1000, ...options, transport });
+  await ableton.connect();
+  return {
+    server,
+    ableton,
+    close() {
+      ableton.disconnect();
+      server.stop();
+    },
+  };
+}
+
+/**
+ * Wait for loopback packets in flight to be delivered
+ */
+export function settle(ms = 20): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,139 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { iterate } from "../src/index.js";
+import { settle } from "./helpers.js";
+
+/**
+ * A callback subscription driven by the test
+ */
+function source<T>() {
+  let callback: ((value: T) => void) | null = null;
+  return {
+    subscribe: (cb: (value: T) => void) => {
+      callback = cb;
+      return () => {
+        callback = null;
+      };
+    },
+    push: (value: T) => callback?.(value),
+    get subscribed() {
+      return callback !== null;
+    },
+  };
+}
+
+async function take<T>(values: AsyncIterator<T>, count: number): Promise<T[]> {
+  const taken: T[] = [];
+  while (taken.length < count) {
+    const { value, done } = await values.next();
+    if (done) break;
+    taken.push(value);
+  }
+  return taken;
+}
+
+describe("iterate", () => {
+  it("buffer values while the consumer is busy, then unsubscribe", async () => {
+    const src = source<number>();
+    const values = iterate(src.subscribe);
+    [1, 2, 3].forEach(src.push);
+
+    const seen: number[] = [];
+    for await (const value of values) {
+      seen.push(value);
+      if (value === 3) break;
+    }
+    assert.deepEqual(seen, [1, 2, 3]);
+    assert.equal(src.subscribed, false);
+  });
+
+  it("drop the oldest or the newest values when the buffer is full", async () => {
+    const oldest = source<number>();
+    const newest = source<number>();
+    const a = iterate(oldest.subscribe, { bufferSize: 2 });
+    const b = iterate(newest.subscribe, { bufferSize: 2, overflow: "newest" });
+    [1, 2, 3].forEach((v) => {
+      oldest.push(v);
+      newest.push(v);
+    });
+
+    assert.deepEqual(await take(a, 2), [2, 3]);
+    assert.deepEqual(await take(b, 2), [1, 2]);
+    await a.return!();
+    await b.return!();
+  });
+
+  it("skip repeats, comparing arrays element-wise", async () => {
+    const src = source<number[]>();
+    const values = iterate(src.subscribe, { distinctUntilChanged: true });
+    [
+      [1, 2],
+      [1, 2],
+      [2, 1],
+      [2, 1],
+      [1, 2],
+    ].forEach(src.push);
+
+    assert.deepEqual(await take(values, 3), [
+      [1, 2],
+      [2, 1],
+      [1, 2],
+    ]);
+    await values.return!();
+  });
+
+  it("skip repeats by a custom comparison", async () => {
+    const src = source<number>();
+    const values = iterate(src.subscribe, {
+      distinctUntilChanged: (a, b) => Math.round(a) === Math.round(b),
+    });
+    [1, 1.2, 1.4, 2, 2.1].forEach(src.push);
+
+    assert.deepEqual(await take(values, 2), [1, 2]);
+    await values.return!();
+  });
+
+  it("throttle to the latest value of a burst", async () => {
+    const src = source<number>();
+    const values = iterate(src.subscribe, { throttle: 50 });
+    [1, 2, 3, 4].forEach(src.push);
+
+    assert.deepEqual(await take(values, 2), [1, 4]);
+    await values.return!();
+  });
+
+  it("not restart the throttle interval for a skipped repeat", async () => {
+    const src = source<number>();
+    const values = iterate(src.subscribe, {
+      throttle: 50,
+      distinctUntilChanged: true,
+    });
+    src.push(1);
+    assert.deepEqual(await take(values, 1), [1]);
+
+    // Held back until the interval ends, then skipped as a repeat
+    await settle(40);
+    src.push(1);
+    await settle(20);
+
+    // The interval that started with the first 1 is over
+    src.push(2);
+    const next = await Promise.race([
+      values.next().then((result) => result.value),
+      settle(5).then(() => "throttled"),
+    ]);
+    assert.equal(next, 2);
+    await values.return!();
+  });
+
+  it("end when the signal is aborted", async () => {
+    const src = source<number>();
+    const controller = new AbortController();
+    const values = iterate(src.subscribe, { signal: controller.signal });
+
+    const next = values.next();
+    controller.abort();
+    assert.deepEqual(await next, { value: undefined, done: true });
+    assert.equal(src.subscribed, false);
+  });
+});
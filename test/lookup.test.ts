@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AmbiguousNameError,
+  NameNotFoundError,
+  findByName,
+} from "../src/index.js";
+import { connect, type Session } from "./helpers.js";
+
+describe("findByName", () => {
+  const names = ["Bass", "Drums", null, "Bass Synth"];
+
+  it("match exactly, ignoring case on request, or by pattern", () => {
+    assert.equal(findByName("track", names, "Bass"), 0);
+    assert.equal(findByName("track", names, "drums", { ignoreCase: true }), 1);
+    assert.equal(findByName("track", names, /synth$/i), 3);
+  });
+
+  it("reuse global patterns safely", () => {
+    const query = /Drums/g;
+    assert.equal(findByName("track", names, query), 1);
+    assert.equal(findByName("track", names, query), 1);
+  });
+
+  it("name the candidates when nothing matches", () => {
+    assert.throws(
+      () => findByName("track", names, "Keys"),
+      (err: NameNotFoundError) => {
+        assert.ok(err instanceof NameNotFoundError);
+        assert.equal(err.message, 'No track named "Keys"');
+        assert.deepEqual(err.available, ["Bass", "Drums", "Bass Synth"]);
+        return true;
+      }
+    );
+  });
+
+  it("list every match when several do", () => {
+    assert.throws(
+      () => findByName("track", names, /^Bass/),
+      (err: AmbiguousNameError) => {
+        assert.ok(err instanceof AmbiguousNameError);
+        assert.deepEqual(err.matches, [0, 3]);
+        assert.deepEqual(err.names, ["Bass", "Bass Synth"]);
+        assert.match(err.message, /"Bass" at 0, "Bass Synth" at 3/);
+        return true;
+      }
+    );
+  });
+});
+
+describe("finding Live objects by name", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const { server } = session;
+    const bass = server.addTrack({ name: "Bass" });
+    server.addTrack({ name: "Drums" });
+    server.addScene({ name: "Verse" });
+    server.addScene({ name: "Chorus 1" });
+    server.addClip(bass, 1, { name: "Hook" });
+    server.addDevice(bass, { name: "Auto Filter" }, [
+      { name: "Frequency", value: 0.25 },
+    ]);
+  });
+
+  afterEach(() => session.close());
+
+  it("resolve tracks, scenes, clips, devices and parameters", async () => {
+    const { ableton } = session;
+    const bass = await ableton.findTrack("bass", { ignoreCase: true });
+    assert.equal(bass.id, 0);
+    assert.equal((await ableton.findScene(/Chorus/)).id, 1);
+
+    const hook = await bass.findClip("Hook");
+    assert.equal(await hook.getName(), "Hook");
+
+    const filter = await bass.findDevice("Auto Filter");
+    const frequency = await filter.param("Frequency");
+    assert.equal(frequency.id, 1);
+    assert.equal(frequency.value, 0.25);
+  });
+
+  it("skip empty clip slots and report missing names", async () => {
+    const { ableton } = session;
+    await assert.rejects(
+      ableton.getTrack(1).findClip(/.*/),
+      /No clip named \/\.\*\//
+    );
+    await assert.rejects(ableton.findTrack("Keys"), NameNotFoundError);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AbletonError,
+  MiddlewareDroppedError,
+  buildOSCMessage,
+  loggerMiddleware,
+  type MiddlewareContext,
+} from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("middleware", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+  });
+
+  afterEach(() => session.close());
+
+  it("rejects a dropped query at once, without retrying it", async () => {
+    const { server, ableton } = session;
+    ableton.use((ctx, next) => {
+      if (ctx.message.address !== "/live/song/get/tempo") next();
+    });
+    await settle();
+    const before = server.received.length;
+
+    await assert.rejects(
+      ableton.song.getTempo({ timeout: 5000 }),
+      MiddlewareDroppedError
+    );
+    await settle();
+    assert.equal(server.received.length, before);
+  });
+
+  it("resolves a query the middleware answers itself", async () => {
+    const { ableton } = session;
+    ableton.use((ctx, next) => {
+      if (
+        ctx.direction === "out" &&
+        ctx.message.address === "/live/song/get/tempo"
+      ) {
+        ctx.respond({ address: ctx.message.address, args: [99] });
+        return;
+      }
+      next();
+    });
+
+    assert.equal(await ableton.song.getTempo(), 99);
+  });
+
+  it("rewrites messages in the order added, until removed", async () => {
+    const { server, ableton } = session;
+    const seen: string[] = [];
+    const isTempo = (ctx: MiddlewareContext) =>
+      ctx.direction === "out" && ctx.message.address.endsWith("/set/tempo");
+    const remove = ableton.use((ctx, next) => {
+      if (isTempo(ctx)) {
+        seen.push("first");
+        ctx.message = { address: ctx.message.address, args: [80] };
+      }
+      next();
+    });
+    ableton.use((ctx, next) => {
+      if (isTempo(ctx)) {
+        seen.push(`second ${ctx.message.args[0]}`);
+      }
+      next();
+    });
+
+    await ableton.song.setTempo(60);
+    await settle();
+    assert.equal(server.set.song.tempo, 80);
+    assert.deepEqual(seen, ["first", "second 80"]);
+
+    remove();
+    await ableton.song.setTempo(50);
+    await settle();
+    assert.equal(server.set.song.tempo, 50);
+    assert.equal(seen.length, 3);
+  });
+
+  it("reports respond() on an incoming message as an error", async () => {
+    const { ableton } = session;
+    const errors: Error[] = [];
+    ableton.on("error", (err) => errors.push(err));
+    ableton.use((ctx, next) => {
+      if (ctx.direction === "in" && ctx.message.address === "/custom") {
+        ctx.respond({ address: "/custom", args: [] });
+      }
+      next();
+    });
+
+    ableton.osc.receive(buildOSCMessage("/custom"));
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0] instanceof AbletonError);
+    assert.match(errors[0].message, /only available for outgoing/);
+  });
+
+  it("logs both directions at debug level", async () => {
+    const { ableton } = session;
+    const lines: unknown[][] = [];
+    const logger = {
+      log: () => {},
+      error: () => {},
+      debug: (...args: unknown[]) => lines.push(args),
+    };
+    ableton.use((ctx, next) => {
+      if (ctx.message.address.endsWith("/tempo")) {
+        loggerMiddleware(logger)(ctx, next);
+      } else {
+        next();
+      }
+    });
+
+    await ableton.song.getTempo();
+    assert.deepEqual(
+      lines.map(([label]) => label),
+      ["[AbleNode] Sent:", "[AbleNode] Received:"]
+    );
+  });
+});
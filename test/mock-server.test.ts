@@ -0,0 +1,60 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AbletonRemoteError, AbletonTimeoutError } from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("MockAbletonServer", () => {
+  let session: Session;
+
+  afterEach(() => session.close());
+
+  it("answers queries from its model", async () => {
+    session = await connect();
+    const { server, ableton } = session;
+    server.addScene({ name: "Intro" });
+    const bass = server.addTrack({ name: "Bass" });
+    server.addClip(bass, 0, { name: "Riff", length: 8 });
+
+    assert.deepEqual(await ableton.getTrackNames(), ["Bass"]);
+    assert.equal(await ableton.getTrack(0).getClip(0).getName(), "Riff");
+    assert.equal(await ableton.song.getTempo(), 120);
+  });
+
+  it("applies sets to its model", async () => {
+    session = await connect();
+    const { server, ableton } = session;
+    server.addTrack({ name: "Bass" });
+
+    await ableton.getTrack(0).setMute(true);
+    await settle();
+
+    assert.equal(server.set.tracks[0].props.mute, true);
+    assert.equal(await ableton.getTrack(0).getMute(), true);
+  });
+
+  it("fails addresses on /live/error", async () => {
+    session = await connect(
+      {},
+      { faults: { errors: { "/live/song/get/tempo": "Broken" } } }
+    );
+    const { server, ableton } = session;
+    server.failNext("/live/song/get/metronome", "Once");
+
+    await assert.rejects(ableton.song.getTempo(), AbletonRemoteError);
+    await assert.rejects(ableton.song.getMetronome(), AbletonRemoteError);
+    assert.equal(await ableton.song.getMetronome(), false);
+  });
+
+  it("drops packets", async () => {
+    session = await connect({ retry: { attempts: 1 } });
+    const { server, ableton } = session;
+    server.faults = { dropRate: 1 };
+    const before = server.received.length;
+
+    await assert.rejects(
+      ableton.song.getTempo({ timeout: 100 }),
+      AbletonTimeoutError
+    );
+    assert.equal(server.received.length, before);
+  });
+});
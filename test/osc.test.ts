@@ -0,0 +1,193 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildOSCBundle,
+  buildOSCMessage,
+  float,
+  fromTimeTag,
+  IMMEDIATELY,
+  isOSCBundle,
+  parseOSCMessage,
+  parseOSCPacket,
+  ProtocolError,
+  toTimeTag,
+  unpackOSCPacket,
+  type OSCArgument,
+  type OSCBundle,
+} from "../src/index.js";
+import { connect, settle } from "./helpers.js";
+
+/** The type tag string of an encoded message, without the comma */
+function typeTags(data: Buffer): string {
+  const tags = data
+    .toString("latin1")
+    .split("\0")
+    .find((part) => part.startsWith(","));
+  return tags?.slice(1) ?? "";
+}
+
+describe("bundles", () => {
+  it("round-trip nested bundles with their timetags", () => {
+    const bundle: OSCBundle = {
+      timetag: toTimeTag(1_700_000_000_500),
+      elements: [
+        { address: "/live/song/set/tempo", args: [128] },
+        {
+          timetag: IMMEDIATELY,
+          elements: [{ address: "/live/song/start_playing", args: [] }],
+        },
+      ],
+    };
+
+    const parsed = parseOSCPacket(buildOSCBundle(bundle));
+
+    assert.ok(isOSCBundle(parsed));
+    assert.deepEqual(parsed.timetag, bundle.timetag);
+    assert.deepEqual(
+      unpackOSCPacket(parsed).map((msg) => msg.address),
+      ["/live/song/set/tempo", "/live/song/start_playing"]
+    );
+  });
+
+  it("reject element sizes beyond the packet", () => {
+    const data = buildOSCBundle({
+      timetag: IMMEDIATELY,
+      elements: [{ address: "/live/test", args: [] }],
+    });
+    data.writeInt32BE(1000, 16);
+
+    assert.throws(() => parseOSCPacket(data), ProtocolError);
+  });
+
+  it("parse plain messages as messages", () => {
+    const parsed = parseOSCPacket(buildOSCMessage("/live/test", 1));
+    assert.ok(!isOSCBundle(parsed));
+    assert.deepEqual(parsed, { address: "/live/test", args: [1] });
+  });
+
+  it("are sent as one packet and applied in order", async () => {
+    const session = await connect();
+    try {
+      const { server, ableton } = session;
+      const sent: Buffer[] = [];
+      ableton.osc.on("sent", (data: Buffer) => sent.push(data));
+
+      ableton.osc.sendBundle([
+        { address: "/live/song/set/tempo", args: [100] },
+        { address: "/live/song/set/metronome", args: [1] },
+      ]);
+      await settle();
+
+      assert.equal(sent.length, 1);
+      assert.ok(isOSCBundle(parseOSCPacket(sent[0])));
+      assert.equal(server.set.song.tempo, 100);
+      assert.equal(server.set.song.metronome, true);
+    } finally {
+      session.close();
+    }
+  });
+});
+
+describe("timetags", () => {
+  it("convert to and from dates to the millisecond", () => {
+    const date = new Date("2024-05-01T12:34:56.789Z");
+    assert.equal(fromTimeTag(toTimeTag(date)).getTime(), date.getTime());
+  });
+
+  it("count seconds from 1900", () => {
+    assert.deepEqual(toTimeTag(0), { seconds: 2208988800, fraction: 0 });
+    assert.deepEqual(IMMEDIATELY, { seconds: 0, fraction: 1 });
+  });
+});
+
+describe("type tags", () => {
+  it("round-trip every OSC 1.0 and 1.1 type", () => {
+    const args: OSCArgument[] = [
+      1,
+      { type: "f", value: 0.5 },
+      { type: "d", value: 0.1 },
+      123n,
+      "text",
+      { type: "S", value: "symbol" },
+      { type: "c", value: "A" },
+      Buffer.from([1, 2, 3]),
+      { type: "t", value: { seconds: 1, fraction: 2 } },
+      { type: "r", value: { r: 1, g: 2, b: 3, a: 4 } },
+      { type: "m", value: { port: 0, status: 0x90, data1: 60, data2: 100 } },
+      true,
+      false,
+      null,
+      Infinity,
+      [1, ["nested"]],
+    ];
+
+    const data = buildOSCMessage("/typed", ...args);
+
+    assert.equal(typeTags(data), "ifdhsScbtrmTFNI[i[s]]");
+    assert.deepEqual(parseOSCMessage(data).args, [
+      1,
+      0.5,
+      0.1,
+      123n,
+      "text",
+      "symbol",
+      "A",
+      Buffer.from([1, 2, 3]),
+      { seconds: 1, fraction: 2 },
+      { r: 1, g: 2, b: 3, a: 4 },
+      { port: 0, status: 0x90, data1: 60, data2: 100 },
+      true,
+      false,
+      null,
+      Infinity,
+      [1, ["nested"]],
+    ]);
+  });
+
+  it("type whole numbers as integers unless told otherwise", () => {
+    assert.equal(typeTags(buildOSCMessage("/a", 120)), "i");
+    assert.equal(typeTags(buildOSCMessage("/a", 120.5)), "f");
+    assert.equal(typeTags(buildOSCMessage("/a", float(120))), "f");
+  });
+
+  it("reject unknown tags and truncated arguments", () => {
+    const unknown = Buffer.concat([
+      Buffer.from("/a\0\0,x\0\0", "latin1"),
+      Buffer.alloc(4),
+    ]);
+    assert.throws(() => parseOSCMessage(unknown), ProtocolError);
+    const truncated = buildOSCMessage("/a", 1).subarray(0, 10);
+    assert.throws(() => parseOSCMessage(truncated), ProtocolError);
+  });
+
+  it("send float endpoint values as floats", async () => {
+    const session = await connect();
+    try {
+      const sent: Buffer[] = [];
+      session.ableton.osc.on("sent", (data: Buffer) => sent.push(data));
+
+      await session.ableton.song.setTempo(120);
+
+      assert.equal(typeTags(sent[0]), "f");
+    } finally {
+      session.close();
+    }
+  });
+
+  it("report undecodable packets as protocolError and keep going", async () => {
+    const session = await connect();
+    try {
+      const { ableton } = session;
+      const dropped: Error[] = [];
+      ableton.on("protocolError", (err) => dropped.push(err));
+
+      ableton.osc.receive(Buffer.from("/live/song/get/tempo\0\0\0\0,x\0\0"));
+
+      assert.equal(dropped.length, 1);
+      assert.ok(dropped[0] instanceof ProtocolError);
+      assert.equal(await ableton.song.getTempo(), 120);
+    } finally {
+      session.close();
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { NameNotFoundError, parsePath, PathError } from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("parsePath", () => {
+  it("split indices, names and wildcards", () => {
+    assert.deepEqual(parsePath("tracks['Bass'].devices[1].mute"), [
+      { name: "tracks", selector: { type: "name", name: "Bass" } },
+      { name: "devices", selector: { type: "index", index: 1 } },
+      { name: "mute", selector: undefined },
+    ]);
+    assert.deepEqual(parsePath("scenes[*]"), [
+      { name: "scenes", selector: { type: "all" } },
+    ]);
+  });
+
+  it("reject malformed paths", () => {
+    assert.throws(() => parsePath("tracks[0"), PathError);
+    assert.throws(() => parsePath("tracks[0]..mute"), PathError);
+  });
+});
+
+describe("resolved paths", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const { server } = session;
+    server.addTrack({ name: "Drums" });
+    const bass = server.addTrack({ name: "Bass" });
+    server.addDevice(bass, { name: "Filter" }, [
+      { name: "Cutoff", value: 0.5 },
+    ]);
+  });
+
+  afterEach(() => session.close());
+
+  it("read and set a parameter found by name", async () => {
+    const { server, ableton } = session;
+    const cutoff = await ableton.resolve(
+      "tracks['Bass'].devices['Filter'].parameters['Cutoff']"
+    );
+    assert.deepEqual(await cutoff.get(), [0.5]);
+
+    await cutoff.set(0.25);
+    await settle();
+
+    const parameter = server.set.tracks[1].devices[0].parameters.find(
+      (p) => p.name === "Cutoff"
+    );
+    assert.equal(parameter?.value, 0.25);
+  });
+
+  it("fan a wildcard out to every track", async () => {
+    const { server, ableton } = session;
+    const mutes = await ableton.resolve("tracks[*].mute");
+    assert.deepEqual(
+      mutes.targets.map((t) => t.path),
+      ["tracks[0].mute", "tracks[1].mute"]
+    );
+
+    await mutes.set(true);
+    await settle();
+
+    assert.deepEqual(
+      server.set.tracks.map((t) => t.props.mute),
+      [true, true]
+    );
+  });
+
+  it("skip wildcard branches without a name", async () => {
+    const { ableton } = session;
+    const filters = await ableton.resolve("tracks[*].devices['Filter']");
+    assert.deepEqual(
+      filters.targets.map((t) => t.path),
+      ["tracks[1].devices[0]"]
+    );
+
+    await assert.rejects(
+      ableton.resolve("tracks[*].devices['Reverb']"),
+      NameNotFoundError
+    );
+  });
+
+  it("reach master-only properties", async () => {
+    const { ableton } = session;
+    const cue = await ableton.resolve("master.cue_volume");
+    await cue.set(0.5);
+    assert.deepEqual(await cue.get(), [0.5]);
+  });
+
+  it("refuse values that do not fit before sending anything", async () => {
+    const { server, ableton } = session;
+    const volumes = await ableton.resolve("tracks[*].volume");
+    await settle();
+    const before = server.received.length;
+
+    await assert.rejects(volumes.set("loud"), (err: PathError) => {
+      assert.ok(err instanceof PathError);
+      assert.match(err.message, /Cannot set tracks\[0\]\.volume: argument 1/);
+      return true;
+    });
+    await settle();
+    assert.deepEqual(
+      server.received
+        .slice(before)
+        .filter((msg) => msg.address !== "/live/test"),
+      []
+    );
+  });
+
+  it("watch every target", async () => {
+    const { server, ableton } = session;
+    const changes: [string, unknown][] = [];
+    const off = (await ableton.resolve("tracks[*].solo")).on((value, target) =>
+      changes.push([target.path, value])
+    );
+    await settle();
+
+    server.apply("/live/track/set/solo", 1, 1);
+    await settle();
+    off();
+
+    assert.deepEqual(changes, [
+      ["tracks[0].solo", false],
+      ["tracks[1].solo", false],
+      ["tracks[1].solo", true],
+    ]);
+  });
+});
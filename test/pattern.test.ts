@@ -0,0 +1,101 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildOSCMessage,
+  compileOSCPattern,
+  isOSCPattern,
+  matchOSCAddress,
+  type OSCValue,
+} from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("OSC address patterns", () => {
+  it("match wildcards within one part of the address", () => {
+    assert.ok(matchOSCAddress("/live/track/get/*", "/live/track/get/mute"));
+    assert.ok(!matchOSCAddress("/live/*", "/live/track/get/mute"));
+    assert.ok(matchOSCAddress("/live/track/get/m?te", "/live/track/get/mute"));
+    assert.ok(!matchOSCAddress("/live/track/get/m?te", "/live/track/get/mte"));
+  });
+
+  it("match character sets, ranges and negation", () => {
+    assert.ok(matchOSCAddress("/track/[0-9]", "/track/7"));
+    assert.ok(!matchOSCAddress("/track/[0-9]", "/track/x"));
+    assert.ok(matchOSCAddress("/track/[!0-9]", "/track/x"));
+    assert.ok(!matchOSCAddress("/[!a]", "/a"));
+    // A leading or trailing - is literal
+    assert.ok(matchOSCAddress("/a[-b]", "/a-"));
+    assert.ok(!matchOSCAddress("/a[-c]", "/ab"));
+  });
+
+  it("match one of several strings", () => {
+    const pattern = "/live/track/get/{mute,solo}";
+    assert.ok(matchOSCAddress(pattern, "/live/track/get/solo"));
+    assert.ok(!matchOSCAddress(pattern, "/live/track/get/arm"));
+  });
+
+  it("treat regular expression characters literally", () => {
+    assert.ok(matchOSCAddress("/a.b+(c)", "/a.b+(c)"));
+    assert.ok(!matchOSCAddress("/a.b", "/axb"));
+  });
+
+  it("reject unclosed brackets and cache compiled patterns", () => {
+    assert.throws(() => compileOSCPattern("/a[b"), /Unclosed \[/);
+    assert.throws(() => compileOSCPattern("/a{b"), /Unclosed \{/);
+    assert.equal(compileOSCPattern("/x/*"), compileOSCPattern("/x/*"));
+  });
+
+  it("tell patterns from plain addresses", () => {
+    assert.ok(isOSCPattern("/live/*"));
+    assert.ok(isOSCPattern("/live/{a,b}"));
+    assert.ok(!isOSCPattern("/live/song/get/tempo"));
+  });
+});
+
+describe("subscribe", () => {
+  let session: Session;
+
+  afterEach(() => session.close());
+
+  it("pass matching messages to the handler until unsubscribed", async () => {
+    session = await connect();
+    const { ableton } = session;
+    const seen: OSCValue[][] = [];
+    const unsubscribe = ableton.subscribe(
+      "/live/track/get/{mute,solo}",
+      (args) => seen.push(args)
+    );
+
+    ableton.osc.receive(buildOSCMessage("/live/track/get/mute", 0, true));
+    ableton.osc.receive(buildOSCMessage("/live/track/get/arm", 0, true));
+    ableton.osc.receive(buildOSCMessage("/live/track/get/solo", 1, false));
+    unsubscribe();
+    ableton.osc.receive(buildOSCMessage("/live/track/get/mute", 2, true));
+
+    assert.deepEqual(seen, [
+      [0, true],
+      [1, false],
+    ]);
+  });
+
+  it("report a throwing handler as an error and keep delivering", async () => {
+    session = await connect();
+    const { server, ableton } = session;
+    // Let the replies to the startup handle refresh arrive first
+    await settle();
+    const errors: Error[] = [];
+    const tempos: OSCValue[] = [];
+    ableton.on("error", (err) => errors.push(err));
+    ableton.subscribe("/live/song/get/*", () => {
+      throw new Error("handler failed");
+    });
+    ableton.subscribe("/live/song/get/tempo", ([tempo]) => tempos.push(tempo));
+
+    server.push("/live/song/get/tempo", 128);
+    await settle();
+    assert.deepEqual(tempos, [128]);
+    assert.deepEqual(
+      errors.map((err) => err.message),
+      ["handler failed"]
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("resubscription", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    session.server.addTrack({ name: "Bass" });
+    await settle();
+  });
+
+  afterEach(() => session.close());
+
+  it("replay listens when AbletonOSC restarts", async () => {
+    const { server, ableton } = session;
+    const counts: number[] = [];
+    const tempos: number[] = [];
+    ableton.on("resubscribed", (count) => counts.push(count));
+    ableton.song.addListener("tempo", (tempo) => tempos.push(tempo));
+    ableton.getTrack(0).on("mute", () => {});
+    await settle();
+
+    server.restart();
+    assert.ok(!server.isListening("/live/song/get/tempo"));
+    await settle();
+
+    assert.deepEqual(counts, [2]);
+    assert.ok(server.isListening("/live/song/get/tempo"));
+    assert.ok(server.isListening("/live/track/get/mute", 0));
+    server.apply("/live/song/set/tempo", 90);
+    await settle();
+    assert.equal(tempos.at(-1), 90);
+  });
+
+  it("replay listens on demand, and report nothing to replay", async () => {
+    const { server, ableton } = session;
+    assert.equal(ableton.resubscribe(), 0);
+
+    ableton.song.startListenBeat();
+    await settle();
+    const before = server.received.length;
+    assert.equal(ableton.resubscribe(), 1);
+    await settle();
+    assert.deepEqual(
+      server.received
+        .slice(before)
+        .map((msg) => msg.address)
+        .filter((address) => address !== "/live/test"),
+      ["/live/song/start_listen/beat"]
+    );
+  });
+
+  it("start listens added while disconnected once connected", async () => {
+    const { server, ableton } = session;
+    ableton.disconnect();
+    ableton.song.addListener("metronome", () => {});
+    assert.equal(ableton.resubscribe(), 0);
+
+    await ableton.connect();
+    await settle();
+    assert.ok(server.isListening("/live/song/get/metronome"));
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AbletonTimeoutError,
+  isIdempotentAddress,
+  parseOSCMessage,
+} from "../src/index.js";
+import { connect, type Session } from "./helpers.js";
+
+const FAST_RETRY = {
+  attempts: 3,
+  attemptTimeout: 30,
+  backoff: 20,
+  factor: 2,
+  maxBackoff: 100,
+  jitter: 0,
+};
+
+describe("query retries", () => {
+  let session: Session;
+  let sent: number[];
+
+  beforeEach(async () => {
+    session = await connect({ retry: FAST_RETRY });
+    sent = [];
+    // Only count the query under test, not the background handle refresh
+    session.ableton.osc.on("sent", (data: Buffer) => {
+      const { address } = parseOSCMessage(data);
+      if (address.endsWith("/tempo") || address.endsWith("/create_scene"))
+        sent.push(Date.now());
+    });
+  });
+
+  afterEach(() => session.close());
+
+  it("resend lost getters with growing delays, then time out", async () => {
+    session.server.faults = { dropRate: 1 };
+
+    await assert.rejects(
+      session.ableton.song.getTempo({ timeout: 2000 }),
+      AbletonTimeoutError
+    );
+
+    assert.equal(sent.length, 3);
+    const gaps = [sent[1] - sent[0], sent[2] - sent[1]];
+    // Each gap is the attempt timeout plus the backoff, which doubles
+    assert.ok(gaps[0] >= 30 + 20 - 5, `first gap ${gaps[0]}`);
+    assert.ok(gaps[1] >= 30 + 40 - 5, `second gap ${gaps[1]}`);
+  });
+
+  it("succeed once a resend gets through", async () => {
+    const { server, ableton } = session;
+    server.faults = { dropRate: 1 };
+    // Let the first attempt get lost before the link heals
+    ableton.osc.on("sent", () => {
+      if (sent.length === 1) setTimeout(() => (server.faults = {}), 10);
+    });
+
+    assert.equal(await ableton.song.getTempo(), 120);
+    assert.equal(sent.length, 2);
+  });
+
+  it("stop at the overall timeout", async () => {
+    session.server.faults = { dropRate: 1 };
+    const started = Date.now();
+
+    await assert.rejects(
+      // Attempts go out at 0 and 50 ms; the third would be due at 120 ms
+      session.ableton.song.getTempo({ timeout: 100 }),
+      AbletonTimeoutError
+    );
+
+    assert.ok(Date.now() - started < 200);
+    assert.equal(sent.length, 2);
+  });
+
+  it("send a query only once when retries are off", async () => {
+    session.server.faults = { dropRate: 1 };
+
+    await assert.rejects(
+      session.ableton.song.getTempo({ timeout: 200, retry: false }),
+      AbletonTimeoutError
+    );
+
+    assert.equal(sent.length, 1);
+  });
+
+  it("never resend queries with side effects", async () => {
+    const { server, ableton } = session;
+    server.faults = { dropRate: 1 };
+
+    await assert.rejects(
+      ableton.osc.request("/live/song/create_scene", [-1], { timeout: 200 }),
+      AbletonTimeoutError
+    );
+
+    assert.equal(sent.length, 1);
+    assert.ok(isIdempotentAddress("/live/song/get/tempo"));
+    assert.ok(isIdempotentAddress("/live/test"));
+    assert.ok(!isIdempotentAddress("/live/song/create_scene"));
+  });
+});
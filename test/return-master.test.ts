@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("return and master tracks", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const { server } = session;
+    server.addTrack({ name: "Bass" });
+    server.addReturnTrack({ name: "A-Reverb" });
+    server.addReturnTrack({ name: "B-Delay" });
+    server.addDevice(server.set.masterTrack, { name: "Limiter" });
+  });
+
+  afterEach(() => session.close());
+
+  it("list and find return tracks", async () => {
+    const { ableton } = session;
+    assert.deepEqual(await ableton.getReturnTrackNames(), [
+      "A-Reverb",
+      "B-Delay",
+    ]);
+    assert.equal(await ableton.getNumReturnTracks(), 2);
+
+    const delay = await ableton.findReturnTrack(/delay/i);
+    assert.equal(await delay.getName(), "B-Delay");
+  });
+
+  it("drive a return track's mixer on the return track endpoints", async () => {
+    const { server, ableton } = session;
+    const reverb = ableton.getReturnTrack(0);
+    await reverb.setMute(true);
+    await reverb.setVolume(0.5);
+    await settle();
+
+    const { props } = server.set.returnTracks[0];
+    assert.equal(props.mute, true);
+    assert.equal(props.volume, 0.5);
+    assert.equal(server.set.tracks[0].props.mute, false);
+    assert.equal(await reverb.getMute(), true);
+    assert.ok(
+      server.received.some(
+        (msg) => msg.address === "/live/return_track/set/mute"
+      )
+    );
+  });
+
+  it("reach the master track without a track index", async () => {
+    const { server, ableton } = session;
+    const master = ableton.masterTrack;
+    await master.setVolume(0.75);
+    await master.setCueVolume(0.5);
+    await settle();
+
+    assert.equal(server.set.masterTrack.props.volume, 0.75);
+    assert.equal(await master.getCueVolume(), 0.5);
+    assert.deepEqual(await master.getDeviceNames(), ["Limiter"]);
+    const volumeSet = server.received.find(
+      (msg) => msg.address === "/live/master_track/set/volume"
+    );
+    assert.ok(volumeSet);
+    assert.equal(volumeSet.args.length, 1);
+  });
+
+  it("listen to the master volume", async () => {
+    const { server, ableton } = session;
+    const volumes: number[] = [];
+    ableton.masterTrack.on("volume", (volume) => volumes.push(volume));
+    await settle();
+    assert.ok(server.isListening("/live/master_track/get/volume"));
+
+    server.apply("/live/master_track/set/volume", 0.5);
+    await settle();
+    // 0.85 comes back as a 32-bit float
+    assert.deepEqual(
+      volumes.map((volume) => Math.fround(volume)),
+      [Math.fround(0.85), 0.5]
+    );
+  });
+});
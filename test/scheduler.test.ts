@@ -0,0 +1,134 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SendScheduler, buildOSCMessage } from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+function packet(text: string): Buffer {
+  return Buffer.from(text);
+}
+
+describe("SendScheduler", () => {
+  let scheduler: SendScheduler;
+  let times: number[];
+
+  afterEach(() => scheduler.clear());
+
+  function create(messagesPerSecond: number, coalesce?: boolean) {
+    const written: string[] = [];
+    times = [];
+    scheduler = new SendScheduler(
+      { messagesPerSecond, coalesce },
+      (data) => {
+        written.push(data.toString());
+        times.push(Date.now());
+      },
+      (err) => assert.fail(err)
+    );
+    return written;
+  }
+
+  it("sends in order, at most messagesPerSecond", async () => {
+    const written = create(50);
+    for (const text of ["a", "b", "c", "d"]) {
+      scheduler.enqueue(packet(text));
+    }
+
+    await settle(30);
+    assert.ok(written.length < 4);
+    await settle(100);
+    assert.deepEqual(written, ["a", "b", "c", "d"]);
+    // One packet every 20 ms, give or take a timer tick
+    for (let i = 1; i < times.length; i++) {
+      assert.ok(times[i] - times[i - 1] >= 18, `gap ${i}`);
+    }
+  });
+
+  it("coalesce sets with the same key, moving them to the end", () => {
+    const written = create(10);
+    scheduler.enqueue(packet("vol 0.1"), "vol");
+    scheduler.enqueue(packet("pan"), "pan");
+    scheduler.enqueue(packet("vol 0.5"), "vol");
+    scheduler.enqueue(packet("vol 0.9"), "vol");
+
+    assert.deepEqual(scheduler.metrics, {
+      depth: 2,
+      peakDepth: 2,
+      sent: 0,
+      coalesced: 2,
+    });
+    scheduler.flush();
+    assert.deepEqual(written, ["pan", "vol 0.9"]);
+  });
+
+  it("keep every packet when coalescing is off", () => {
+    const written = create(10, false);
+    scheduler.enqueue(packet("vol 0.1"), "vol");
+    scheduler.enqueue(packet("vol 0.5"), "vol");
+
+    scheduler.flush();
+    assert.deepEqual(written, ["vol 0.1", "vol 0.5"]);
+    assert.equal(scheduler.metrics.coalesced, 0);
+  });
+
+  it("flush sends everything, clear drops it", () => {
+    const written = create(1);
+    scheduler.enqueue(packet("a"));
+    scheduler.enqueue(packet("b"));
+    scheduler.flush();
+    assert.deepEqual(written, ["a", "b"]);
+
+    scheduler.enqueue(packet("c"));
+    scheduler.clear();
+    assert.equal(scheduler.depth, 0);
+    assert.deepEqual(scheduler.metrics, {
+      depth: 0,
+      peakDepth: 2,
+      sent: 2,
+      coalesced: 0,
+    });
+  });
+
+  it("reject a rate that is not positive", () => {
+    assert.throws(() => create(0), /messagesPerSecond/);
+    scheduler = new SendScheduler(
+      { messagesPerSecond: 1 },
+      () => {},
+      () => {}
+    );
+  });
+});
+
+describe("rate-limited client", () => {
+  let session: Session;
+
+  afterEach(() => session.close());
+
+  it("coalesce a knob sweep into the latest value", async () => {
+    session = await connect({ rateLimit: { messagesPerSecond: 20 } });
+    const { server, ableton } = session;
+    server.addTrack({ name: "Bass" });
+    await settle(100);
+
+    const track = ableton.getTrack(0);
+    const sweep = [0.1, 0.2, 0.3, 0.4, 0.5].map((v) => track.setVolume(v));
+    await Promise.all(sweep);
+    assert.equal(ableton.osc.getQueueMetrics()?.coalesced, 4);
+
+    ableton.osc.flush();
+    await settle();
+    assert.equal(server.set.tracks[0].props.volume, 0.5);
+  });
+
+  it("let bypassRateLimit queries overtake the queue", async () => {
+    session = await connect({ rateLimit: { messagesPerSecond: 5 } });
+    const { ableton } = session;
+    for (let i = 0; i < 10; i++) {
+      ableton.osc.sendRaw(buildOSCMessage("/live/song/set/tempo", 100 + i));
+    }
+
+    const started = Date.now();
+    await ableton.osc.request("/live/test", [], { bypassRateLimit: true });
+    assert.ok(Date.now() - started < 100);
+    assert.ok(ableton.osc.queueDepth > 0);
+  });
+});
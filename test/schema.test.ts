@@ -0,0 +1,106 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ProtocolError,
+  checkEndpointArgs,
+  decodeReply,
+  encodeEndpointArgs,
+  float,
+} from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("endpoint registry", () => {
+  it("encode floats with the f tag and bools as 1/0", () => {
+    assert.deepEqual(encodeEndpointArgs("song/set/tempo", [120]), [float(120)]);
+    assert.deepEqual(encodeEndpointArgs("track/set/mute", [2, true]), [2, 1]);
+  });
+
+  it("check arguments against the endpoint before encoding", () => {
+    assert.equal(checkEndpointArgs("track/set/mute", [2, true]), null);
+    assert.equal(
+      checkEndpointArgs("track/set/volume", [0, "loud"]),
+      "argument 1 is string loud, expected float"
+    );
+    assert.equal(
+      checkEndpointArgs("track/set/mute", [2]),
+      "expected 2 arguments, got 1"
+    );
+  });
+
+  it("strip echoed indices and decode the reply", () => {
+    const msg = { address: "/live/track/get/name", args: [3, "Bass"] };
+    assert.equal(decodeReply("track/get/name", msg), "Bass");
+
+    const notes = {
+      address: "/live/clip/get/notes",
+      args: [0, 1, 60, 0, 0.5, 100, 0, 64, 1, 0.5, 90, 1],
+    };
+    assert.deepEqual(decodeReply("clip/get/notes", notes), [
+      [60, 0, 0.5, 100, false],
+      [64, 1, 0.5, 90, true],
+    ]);
+  });
+
+  it("leave out the track index on the master track", () => {
+    const msg = { address: "/live/master_track/get/volume", args: [0.85] };
+    assert.equal(decodeReply("track/get/volume", msg, "master_track"), 0.85);
+  });
+
+  it("raise ProtocolError on a reply of the wrong shape", () => {
+    const cases = [
+      { address: "/live/song/get/tempo", args: ["fast"] },
+      { address: "/live/song/get/tempo", args: [] },
+      { address: "/live/track/get/name", args: [] },
+    ];
+    for (const msg of cases) {
+      const endpoint =
+        msg.address === "/live/song/get/tempo"
+          ? "song/get/tempo"
+          : "track/get/name";
+      assert.throws(() => decodeReply(endpoint, msg), ProtocolError);
+    }
+
+    const notes = { address: "/live/clip/get/notes", args: [0, 0, 60, 0] };
+    assert.throws(
+      () => decodeReply("clip/get/notes", notes),
+      /expected groups of 5 values/
+    );
+  });
+});
+
+describe("Ableton.call", () => {
+  let session: Session;
+
+  afterEach(() => session.close());
+
+  it("query and send through the registry", async () => {
+    session = await connect();
+    const { server, ableton } = session;
+    server.addTrack({ name: "Bass" });
+
+    assert.equal(await ableton.call("song/get/tempo"), 120);
+    assert.equal(await ableton.call("track/get/name", [0]), "Bass");
+    await ableton.call("track/set/mute", [0, true]);
+    await settle();
+    assert.equal(server.set.tracks[0].props.mute, true);
+  });
+
+  it("reject a mismatched reply with ProtocolError", async () => {
+    session = await connect();
+    const { ableton } = session;
+    ableton.use((ctx, next) => {
+      if (ctx.direction === "out" && ctx.message.address.endsWith("/tempo")) {
+        ctx.respond({ address: ctx.message.address, args: ["fast"] });
+        return;
+      }
+      next();
+    });
+
+    await assert.rejects(ableton.song.getTempo(), (err: ProtocolError) => {
+      assert.ok(err instanceof ProtocolError);
+      assert.equal(err.address, "/live/song/get/tempo");
+      assert.deepEqual(err.args, ["fast"]);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("song listeners", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+  });
+
+  afterEach(() => session.close());
+
+  function sent(address: string): number {
+    return session.server.received.filter((msg) => msg.address === address)
+      .length;
+  }
+
+  it("push the current value, then every change", async () => {
+    const { server, ableton } = session;
+    const tempos: number[] = [];
+    ableton.song.addListener("tempo", (tempo) => tempos.push(tempo));
+    await settle();
+    assert.ok(server.isListening("/live/song/get/tempo"));
+
+    server.apply("/live/song/set/tempo", 128);
+    await settle();
+    assert.deepEqual(tempos, [120, 128]);
+  });
+
+  it("share one start_listen, and stop when the last listener goes", async () => {
+    const { server, ableton } = session;
+    const first: boolean[] = [];
+    const second: boolean[] = [];
+    const removeFirst = ableton.song.addListener("metronome", (on) =>
+      first.push(on)
+    );
+    await settle();
+    const removeSecond = ableton.song.addListener("metronome", (on) =>
+      second.push(on)
+    );
+    await settle();
+    // The second listener gets the known value without another listen
+    assert.deepEqual(second, [false]);
+    assert.equal(sent("/live/song/start_listen/metronome"), 1);
+
+    removeFirst();
+    server.apply("/live/song/set/metronome", 1);
+    await settle();
+    assert.deepEqual(first, [false]);
+    assert.deepEqual(second, [false, true]);
+    assert.ok(server.isListening("/live/song/get/metronome"));
+
+    removeSecond();
+    await settle();
+    assert.equal(sent("/live/song/stop_listen/metronome"), 1);
+    assert.ok(!server.isListening("/live/song/get/metronome"));
+  });
+
+  it("combine the signature from its two listens", async () => {
+    const { server, ableton } = session;
+    const signatures: [number, number][] = [];
+    ableton.song.addListener("signature", (sig) => signatures.push(sig));
+    await settle();
+
+    server.apply("/live/song/set/signature_numerator", 3);
+    await settle();
+    assert.deepEqual(signatures, [
+      [4, 4],
+      [3, 4],
+    ]);
+  });
+
+  it("poll properties Live cannot observe", async () => {
+    const { ableton } = session;
+    const values: boolean[] = [];
+    const remove = ableton.song.addListener("canUndo", (value) =>
+      values.push(value)
+    );
+    await settle(150);
+    remove();
+
+    assert.ok(sent("/live/song/get/can_undo") > 0);
+    assert.equal(sent("/live/song/start_listen/can_undo"), 0);
+    const polls = sent("/live/song/get/can_undo");
+    await settle(150);
+    assert.equal(sent("/live/song/get/can_undo"), polls);
+    assert.deepEqual(values, [false]);
+  });
+
+  it("reject unknown properties", () => {
+    assert.throws(
+      () => session.ableton.song.addListener("bogus" as "tempo", () => {}),
+      /Unknown property: bogus/
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { walkTrackTree, type TrackNode } from "../src/index.js";
+import { connect, settle, type Session } from "./helpers.js";
+
+describe("track tree", () => {
+  let session: Session;
+
+  beforeEach(async () => {
+    session = await connect();
+    const { server } = session;
+    server.addTrack({ name: "Drums", is_foldable: true, fold_state: true });
+    server.addTrack({ name: "Kick", group_track: 0 });
+    server.addTrack({ name: "Perc", is_foldable: true, group_track: 0 });
+    server.addTrack({ name: "Shaker", group_track: 2 });
+    server.addTrack({ name: "Bass" });
+  });
+
+  afterEach(() => session.close());
+
+  function outline(nodes: TrackNode[]): string[] {
+    const lines: string[] = [];
+    walkTrackTree(nodes, (node, depth, parent) => {
+      const kind = node.type === "group" ? "+" : "-";
+      lines.push(`${"  ".repeat(depth)}${kind} ${node.name} <${parent?.name}>`);
+    });
+    return lines;
+  }
+
+  it("nest tracks under their group tracks", async () => {
+    const tree = await session.ableton.getTrackTree();
+
+    assert.deepEqual(outline(tree), [
+      "+ Drums <undefined>",
+      "  - Kick <Drums>",
+      "  + Perc <Drums>",
+      "    - Shaker <Perc>",
+      "- Bass <undefined>",
+    ]);
+    const [drums] = tree;
+    assert.equal(drums.type === "group" && drums.folded, true);
+    assert.equal(drums.track.id, 0);
+  });
+
+  it("find a track's group, children and descendants", async () => {
+    const { ableton } = session;
+    assert.equal((await ableton.getTrack(3).getGroupTrack())?.id, 2);
+    assert.equal(await ableton.getTrack(4).getGroupTrack(), null);
+
+    const drums = ableton.getTrack(0);
+    const ids = (tracks: { id: number }[]) => tracks.map((t) => t.id);
+    assert.deepEqual(ids(await drums.getChildren()), [1, 2]);
+    assert.deepEqual(ids(await drums.getDescendants()), [1, 2, 3]);
+  });
+
+  it("mute a group and everything in it", async () => {
+    const { server, ableton } = session;
+    await ableton.getTrack(0).setMuteRecursive(true);
+    await settle();
+
+    assert.deepEqual(
+      server.set.tracks.map((track) => track.props.mute),
+      [true, true, true, true, false]
+    );
+  });
+
+  it("fold and unfold every group", async () => {
+    const { server, ableton } = session;
+    await ableton.foldAllGroups(false);
+    await settle();
+    assert.equal(server.set.tracks[0].props.fold_state, false);
+
+    await ableton.foldAllGroups();
+    await settle();
+    assert.deepEqual(
+      server.set.tracks.map((track) => track.props.fold_state),
+      [true, false, true, false, false]
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import net from "node:net";
+import {
+  buildOSCMessage,
+  LoopbackTransport,
+  OSCClient,
+  parseOSCMessage,
+  SlipDecoder,
+  slipEncode,
+  TCPTransport,
+  UDPTransport,
+  WebSocketTransport,
+  type WebSocketLike,
+} from "../src/index.js";
+
+describe("SLIP framing", () => {
+  it("escapes frame bytes and decodes frames split across chunks", () => {
+    const packet = Buffer.from([1, 0xc0, 2, 0xdb, 3]);
+    const framed = slipEncode(packet);
+    assert.deepEqual(
+      [...framed],
+      [0xc0, 1, 0xdb, 0xdc, 2, 0xdb, 0xdd, 3, 0xc0]
+    );
+
+    const decoder = new SlipDecoder();
+    const twice = Buffer.concat([framed, framed]);
+    assert.deepEqual(decoder.push(twice.subarray(0, 4)), []);
+    assert.deepEqual(decoder.push(twice.subarray(4)), [packet, packet]);
+  });
+});
+
+describe("TCPTransport", () => {
+  it("exchanges SLIP-framed packets", async () => {
+    const server = net.createServer((socket) => {
+      const decoder = new SlipDecoder();
+      socket.on("data", (chunk) => {
+        for (const packet of decoder.push(chunk)) {
+          const msg = parseOSCMessage(packet);
+          socket.write(slipEncode(buildOSCMessage(msg.address, "ok")));
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as net.AddressInfo;
+
+    const client = new OSCClient({
+      host: "127.0.0.1",
+      transport: new TCPTransport({ host: "127.0.0.1", port }),
+    });
+    try {
+      await client.connect();
+      assert.equal(await client.ping(), true);
+    } finally {
+      client.close();
+      server.close();
+    }
+  });
+});
+
+describe("WebSocketTransport", () => {
+  it("sends one packet per binary message", async () => {
+    const sockets: FakeWebSocket[] = [];
+    class FakeWebSocket implements WebSocketLike {
+      binaryType = "blob";
+      readyState = 0;
+      sent: Uint8Array[] = [];
+      onopen: WebSocketLike["onopen"] = null;
+      onerror: WebSocketLike["onerror"] = null;
+      onclose: WebSocketLike["onclose"] = null;
+      onmessage: WebSocketLike["onmessage"] = null;
+
+      constructor(readonly url: string) {
+        sockets.push(this);
+        setTimeout(() => {
+          this.readyState = 1;
+          this.onopen?.({});
+        }, 0);
+      }
+
+      send(data: Uint8Array): void {
+        this.sent.push(data);
+        const reply = buildOSCMessage("/live/test", "ok");
+        setTimeout(() => this.onmessage?.({ data: new Uint8Array(reply) }), 0);
+      }
+
+      close(): void {
+        this.readyState = 3;
+        this.onclose?.({});
+      }
+    }
+
+    const client = new OSCClient({
+      host: "127.0.0.1",
+      transport: new WebSocketTransport({
+        url: "ws://127.0.0.1:9000",
+        WebSocket: FakeWebSocket,
+      }),
+    });
+    await client.connect();
+    assert.equal(await client.ping(), true);
+    client.close();
+
+    assert.equal(sockets.length, 1);
+    assert.equal(sockets[0].binaryType, "arraybuffer");
+    assert.equal(
+      parseOSCMessage(Buffer.from(sockets[0].sent[0])).address,
+      "/live/test"
+    );
+  });
+});
+
+describe("LoopbackTransport", () => {
+  it("delivers between the two ends only while both are open", async () => {
+    const [a, b] = LoopbackTransport.pair();
+    const received: Buffer[] = [];
+    b.on("packet", (data) => received.push(data));
+    await a.open();
+
+    assert.throws(() => b.send(Buffer.from("x")));
+    a.send(Buffer.from("lost"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await b.open();
+    a.send(Buffer.from("kept"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.deepEqual(received.map(String), ["kept"]);
+  });
+});
+
+describe("UDPTransport", () => {
+  // Fixed ports, as shared sockets are pooled by port
+  const RECEIVE_PORT = 47123;
+
+  function bindable(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = dgram.createSocket("udp4");
+      socket.once("error", () => resolve(false));
+      socket.bind(port, () => socket.close(() => resolve(true)));
+    });
+  }
+
+  async function live(): Promise<dgram.Socket> {
+    const socket = dgram.createSocket("udp4");
+    await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+    return socket;
+  }
+
+  it("share a receive port and route packets by sender", async () => {
+    const [liveA, liveB] = [await live(), await live()];
+    const a = new UDPTransport({
+      host: "127.0.0.1",
+      sendPort: liveA.address().port,
+      receivePort: RECEIVE_PORT,
+    });
+    const b = new UDPTransport({
+      host: "127.0.0.1",
+      sendPort: liveB.address().port,
+      receivePort: RECEIVE_PORT,
+    });
+    const received = { a: [] as string[], b: [] as string[] };
+    a.on("packet", (data) => received.a.push(String(data)));
+    b.on("packet", (data) => received.b.push(String(data)));
+    await a.open();
+    await b.open();
+
+    try {
+      liveA.send("from a", RECEIVE_PORT, "127.0.0.1");
+      liveB.send("from b", RECEIVE_PORT, "127.0.0.1");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      assert.deepEqual(received, { a: ["from a"], b: ["from b"] });
+    } finally {
+      a.close();
+      b.close();
+      liveA.close();
+      liveB.close();
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.ok(await bindable(RECEIVE_PORT), "closing the last one frees it");
+  });
+
+  it("register once when opened twice", async () => {
+    const transport = new UDPTransport({
+      host: "127.0.0.1",
+      sendPort: 47124,
+      receivePort: RECEIVE_PORT,
+    });
+    await transport.open();
+    await transport.open();
+    transport.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.ok(await bindable(RECEIVE_PORT));
+  });
+
+  it("drop an open that is closed before it completes", async () => {
+    const transport = new UDPTransport({
+      host: "127.0.0.1",
+      sendPort: 47124,
+      receivePort: RECEIVE_PORT,
+    });
+    const opening = transport.open();
+    transport.close();
+    await opening;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.equal(transport.isOpen, false);
+    assert.ok(await bindable(RECEIVE_PORT));
+  });
+});